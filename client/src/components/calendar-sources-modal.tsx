@@ -9,6 +9,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Info, MapPin, Building, GraduationCap, Briefcase, Library, TreePine } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import type { FeedType } from "@shared/schema";
 
 interface CalendarSource {
   id: string;
@@ -20,7 +21,8 @@ interface CalendarSource {
   websiteUrl?: string;
   isActive: boolean;
   lastSync?: Date;
-  feedType: 'ical' | 'rss' | 'webcal' | 'json' | 'html';
+  feedType: FeedType;
+  color?: string;
 }
 
 interface CalendarSourcesResponse {
@@ -58,9 +60,19 @@ const getFeedTypeColor = (feedType: string) => {
   switch (feedType) {
     case 'ical': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300';
     case 'rss': return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300';
-    case 'json': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
+    case 'json':
+    case 'tribe': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
     case 'webcal': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300';
     case 'html': return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300';
+    case 'pdf': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300';
+    case 'libcal':
+    case 'communico':
+    case 'librarymarket': return 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300';
+    case 'activenet':
+    case 'recdesk':
+    case 'civicrec': return 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-300';
+    case 'legistar':
+    case 'granicus': return 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300';
     default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300';
   }
 };
@@ -174,6 +186,9 @@ export function CalendarSourcesModal() {
                               </div>
                               <div className="flex-1 min-w-0">
                                 <div className="flex items-center gap-2 mb-1">
+                                  {source.color && (
+                                    <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: source.color }} />
+                                  )}
                                   <h4 className="font-medium text-sm truncate">{source.name}</h4>
                                   <Badge className={getFeedTypeColor(source.feedType)} variant="secondary">
                                     {source.feedType.toUpperCase()}
@@ -219,6 +234,9 @@ export function CalendarSourcesModal() {
                             <div className="flex items-start gap-3 flex-1">
                               <div className="flex-1 min-w-0">
                                 <div className="flex items-center gap-2 mb-1">
+                                  {source.color && (
+                                    <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: source.color }} />
+                                  )}
                                   <h4 className="font-medium text-sm truncate">{source.name}</h4>
                                   <Badge className={getFeedTypeColor(source.feedType)} variant="secondary">
                                     {source.feedType.toUpperCase()}
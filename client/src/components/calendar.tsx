@@ -19,15 +19,26 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import {
+  eventCoversDay,
+  formatEventTime,
+  getDayKey,
+  getDisplayTimeZone,
+  getEventDayRange,
+  getTimeZoneLabel,
+  viewerTimeZone,
+  type TimeZoneMode,
+} from "@/lib/event-time";
 
 interface CalendarProps {
   events: Event[];
   onEventClick: (event: Event) => void;
   selectedLocations?: string[];
   onAddLocation?: (location: string) => void;
+  timeZoneMode?: TimeZoneMode;
 }
 
-export function Calendar({ events = [], onEventClick, selectedLocations = [], onAddLocation }: CalendarProps) {
+export function Calendar({ events = [], onEventClick, selectedLocations = [], onAddLocation, timeZoneMode = "event" }: CalendarProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [showCitySelector, setShowCitySelector] = useState(false);
@@ -51,8 +62,35 @@ export function Calendar({ events = [], onEventClick, selectedLocations = [], on
     return allDays;
   }, [startDate, endDate]);
 
+  // Multi-day events come first so their bars line up across neighbouring cells
   const getEventsForDay = (day: Date) => {
-    return events.filter((event) => isSameDay(new Date(event.startDate), day));
+    return events
+      .filter((event) => eventCoversDay(event, day, getDisplayTimeZone(event, timeZoneMode)))
+      .sort((a, b) => {
+        const aRange = getEventDayRange(a, getDisplayTimeZone(a, timeZoneMode));
+        const bRange = getEventDayRange(b, getDisplayTimeZone(b, timeZoneMode));
+        const aMultiDay = aRange.first !== aRange.last;
+        const bMultiDay = bRange.first !== bRange.last;
+        if (aMultiDay !== bMultiDay) return aMultiDay ? -1 : 1;
+        return aRange.first.localeCompare(bRange.first);
+      });
+  };
+
+  // Bar segment styling for an event on a given day: multi-day events bleed into the
+  // neighbouring cells and only round off (and show the title) where the bar starts
+  const getBarSegment = (event: Event, day: Date) => {
+    const { first, last } = getEventDayRange(event, getDisplayTimeZone(event, timeZoneMode));
+    const key = getDayKey(day);
+    if (first === last) {
+      return { className: "rounded", showTitle: true };
+    }
+
+    const isStart = key === first;
+    const isEnd = key === last;
+    return {
+      className: `${isStart ? "rounded-l" : "-ml-[6px] pl-[10px]"} ${isEnd ? "rounded-r" : "-mr-[6px]"}`,
+      showTitle: isStart || day.getDay() === 0,
+    };
   };
 
   const getCategoryColor = (category: string) => {
@@ -67,6 +105,10 @@ export function Calendar({ events = [], onEventClick, selectedLocations = [], on
     return colorMap[category] || "event-default";
   };
 
+  const getStatusLabel = (status: string) => {
+    return status === "cancelled" ? "Cancelled" : "No longer listed";
+  };
+
   const selectedDateEvents = getEventsForDay(selectedDate);
 
   // Handle city search
@@ -253,18 +295,24 @@ export function Calendar({ events = [], onEventClick, selectedLocations = [], on
                     {format(day, "d")}
                   </span>
                   <div className="mt-1 space-y-1">
-                    {dayEvents.slice(0, 2).map((event, eventIndex) => (
-                      <div
-                        key={event.id}
-                        className={`text-xs px-1 py-0.5 rounded truncate cursor-pointer ${getCategoryColor(event.category)}`}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onEventClick(event);
-                        }}
-                      >
-                        {event.title}
-                      </div>
-                    ))}
+                    {dayEvents.slice(0, 2).map((event) => {
+                      const segment = getBarSegment(event, day);
+                      return (
+                        <div
+                          key={event.id}
+                          className={`text-xs px-1 py-0.5 truncate cursor-pointer ${segment.className} ${getCategoryColor(event.category)} ${
+                            event.status !== "scheduled" ? "line-through opacity-60" : ""
+                          }`}
+                          title={event.title}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onEventClick(event);
+                          }}
+                        >
+                          {segment.showTitle ? event.title : "\u00a0"}
+                        </div>
+                      );
+                    })}
                     {dayEvents.length > 2 && (
                       <div className="text-xs text-gray-500">
                         +{dayEvents.length - 2} more
@@ -288,40 +336,50 @@ export function Calendar({ events = [], onEventClick, selectedLocations = [], on
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {selectedDateEvents.map((event) => (
-                <div
-                  key={event.id}
-                  className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer"
-                  onClick={() => onEventClick(event)}
-                >
-                  <div className="flex items-start space-x-4">
-                    <div className="flex-shrink-0 w-16 text-center">
-                      <div className="text-sm font-medium text-primary">
-                        {event.startTime.split(" ")[0]}
-                      </div>
-                      <div className="text-xs text-gray-500">
-                        {event.startTime.split(" ")[1]}
-                      </div>
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <h4 className="text-lg font-medium text-gray-900 truncate">
-                          {event.title}
-                        </h4>
-                        <Badge variant="secondary">{event.category}</Badge>
+              {selectedDateEvents.map((event) => {
+                const timeZone = getDisplayTimeZone(event, timeZoneMode);
+                const [time, period] = event.allDay ? ["All", "day"] : formatEventTime(event.startDate, timeZone).split(" ");
+                return (
+                  <div
+                    key={event.id}
+                    className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer"
+                    onClick={() => onEventClick(event)}
+                  >
+                    <div className="flex items-start space-x-4">
+                      <div className="flex-shrink-0 w-16 text-center">
+                        <div className="text-sm font-medium text-primary">
+                          {time}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {period}
+                          {!event.allDay && timeZone !== viewerTimeZone && ` ${getTimeZoneLabel(event.startDate, timeZone)}`}
+                        </div>
                       </div>
-                      <p className="text-sm text-gray-600 mb-2">
-                        {event.description}
-                      </p>
-                      <div className="flex items-center space-x-4 text-sm text-gray-500">
-                        <span>{event.location}</span>
-                        <span>{event.attendees} attending</span>
-                        <span>{event.organizer}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <h4 className={`text-lg font-medium text-gray-900 truncate ${
+                            event.status !== "scheduled" ? "line-through text-gray-500" : ""
+                          }`}>
+                            {event.title}
+                          </h4>
+                          <Badge variant="secondary">{event.category}</Badge>
+                          {event.status !== "scheduled" && (
+                            <Badge variant="destructive">{getStatusLabel(event.status)}</Badge>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600 mb-2">
+                          {event.description}
+                        </p>
+                        <div className="flex items-center space-x-4 text-sm text-gray-500">
+                          <span>{event.location}</span>
+                          <span>{event.attendees} attending</span>
+                          <span>{event.organizer}</span>
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </CardContent>
         </Card>
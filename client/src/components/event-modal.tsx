@@ -1,20 +1,64 @@
-import { X, Calendar, Clock, MapPin, Building, Share, Heart, CalendarPlus, Building2, School, Globe, BookOpen, Database } from "lucide-react";
-import { Event } from "@shared/schema";
+import { X, Calendar, Clock, MapPin, Building, Share, Heart, CalendarPlus, Building2, School, Globe, BookOpen, Database, Ban, History, Landmark, FileText, Video, Users, ClipboardCheck, Layers, Ticket, ExternalLink, Paperclip } from "lucide-react";
+import { Event, EventRevision } from "@shared/schema";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatEventDate,
+  formatEventDateRange,
+  formatEventTime,
+  formatShortTime,
+  getDisplayTimeZone,
+  getTimeZoneLabel,
+  type TimeZoneMode,
+} from "@/lib/event-time";
 
 interface EventModalProps {
   event: Event | null;
   isOpen: boolean;
   onClose: () => void;
+  timeZoneMode?: TimeZoneMode;
 }
 
-export function EventModal({ event, isOpen, onClose }: EventModalProps) {
+export function EventModal({ event, isOpen, onClose, timeZoneMode = "event" }: EventModalProps) {
+  const { data: revisions = [] } = useQuery<EventRevision[]>({
+    queryKey: ["/api/events", event?.id, "history"],
+    enabled: !!event && isOpen,
+  });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Splits a listing another source published from this event when the merge was wrong
+  const unmergeMutation = useMutation({
+    mutationFn: async (listingId: string) => {
+      const response = await apiRequest("POST", `/api/events/${listingId}/unmerge`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events/filter"] });
+      toast({
+        title: "Listings Separated",
+        description: "The listing now appears as its own event.",
+      });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "Un-merge Failed",
+        description: "Failed to separate the listings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   if (!event) return null;
 
   const eventDate = new Date(event.startDate);
+  const timeZone = getDisplayTimeZone(event, timeZoneMode);
+  const isCancelled = event.status !== "scheduled";
 
   const getSourceIcon = (source: string) => {
     if (source.includes('city') || source.includes('parks')) {
@@ -32,6 +76,49 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
     return <Database className="text-gray-600" size={16} />;
   };
 
+  // Revisions come newest first, so the last one per field holds the originally listed value
+  const getChangeFlags = () => {
+    const flags: string[] = [];
+    const originalStart = revisions.filter(r => r.field === "startDate").pop();
+    if (originalStart && new Date(originalStart.previousValue).getTime() !== eventDate.getTime()) {
+      const previousDate = new Date(originalStart.previousValue);
+      const previousDay = formatEventDate(previousDate, timeZone, { weekday: "short", month: "short", day: "numeric" }).replace(",", "");
+      flags.push(`Rescheduled from ${event.allDay ? previousDay : `${previousDay} ${formatShortTime(previousDate, timeZone)}`}`);
+    }
+    if (revisions.some(r => r.field === "location")) {
+      flags.push("Location changed");
+    }
+    if (revisions.some(r => r.field === "title")) {
+      flags.push("Title updated");
+    }
+    return flags;
+  };
+
+  const changeFlags = getChangeFlags();
+
+  const getAgeLabel = () => {
+    if (event.ageMin == null && event.ageMax == null) return null;
+    if (event.ageMax == null) return event.ageMin === 0 ? "All ages" : `Ages ${event.ageMin}+`;
+    return `Ages ${event.ageMin ?? 0}-${event.ageMax}`;
+  };
+
+  // The cost as published, or the parsed range when the source gave none
+  const getPriceLabel = () => {
+    if (event.isFree === "true" && !event.priceMax) return "Free";
+    if (event.priceLabel) return event.priceLabel;
+    if (event.priceMin == null) return null;
+    const formatDollars = (amount: number) => amount === 0 ? "Free" : `$${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+    return event.priceMax != null && event.priceMax !== event.priceMin
+      ? `${formatDollars(event.priceMin)} - ${formatDollars(event.priceMax)}`
+      : formatDollars(event.priceMin);
+  };
+
+  const priceLabel = getPriceLabel();
+
+  const registrationStatusLabels = { open: "Open", waitlist: "Waitlist only", full: "Full", closed: "Closed" };
+
+  const ageLabel = getAgeLabel();
+
   const getSourceLabel = (source: string) => {
     if (source.includes('city')) return 'City Government';
     if (source.includes('parks')) return 'Parks & Recreation';
@@ -46,13 +133,42 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" aria-describedby="event-description">
         <DialogHeader>
-          <DialogTitle className="text-2xl font-bold text-gray-900">
+          <DialogTitle className={`text-2xl font-bold text-gray-900 ${isCancelled ? "line-through text-gray-500" : ""}`}>
             {event.title}
           </DialogTitle>
 
         </DialogHeader>
 
         <div id="event-description" className="space-y-4">
+          {/* Cancellation Notice */}
+          {isCancelled && (
+            <div className="flex items-start space-x-3 p-3 rounded-lg border border-red-200 bg-red-50 text-red-800">
+              <Ban className="mt-0.5 flex-shrink-0" size={18} />
+              <div className="text-sm">
+                <p className="font-medium">
+                  {event.status === "cancelled" ? "This event has been cancelled" : "This event is no longer listed"}
+                </p>
+                <p>
+                  {event.status === "cancelled"
+                    ? "The organizer marked this event as cancelled in their calendar."
+                    : "It was removed from the organizer's calendar and may have been called off. Check with the organizer before attending."}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Change Notices */}
+          {changeFlags.length > 0 && (
+            <div className="flex items-center space-x-2 flex-wrap gap-2">
+              {changeFlags.map(flag => (
+                <Badge key={flag} variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+                  <History className="mr-1" size={12} />
+                  {flag}
+                </Badge>
+              ))}
+            </div>
+          )}
+
           {/* Event Image */}
           {event.imageUrl && (
             <img
@@ -65,13 +181,19 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
           {/* Event Tags */}
           <div className="flex items-center space-x-2 flex-wrap gap-2">
             <Badge variant="secondary">{event.category}</Badge>
-            <Badge variant={event.isFree === "true" ? "default" : "outline"}>
-              {event.isFree === "true" ? "Free" : "Paid"}
-            </Badge>
+            {event.tags?.map(tag => (
+              <Badge key={tag} variant="outline" className="text-gray-600">{tag}</Badge>
+            ))}
+            {priceLabel && (
+              <Badge variant={event.isFree === "true" ? "default" : "outline"}>{priceLabel}</Badge>
+            )}
             <div className="flex items-center space-x-1 bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded-md">
               {getSourceIcon(event.source)}
               <span className="text-xs text-gray-600 dark:text-gray-300">{getSourceLabel(event.source)}</span>
             </div>
+            {event.audience?.map(group => (
+              <Badge key={group} variant="outline">{group}</Badge>
+            ))}
           </div>
 
           {/* Event Details Grid */}
@@ -79,13 +201,15 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
             <div className="flex items-center space-x-3">
               <Calendar className="text-primary" size={20} />
               <span className="text-gray-700">
-                {format(eventDate, "MMMM d, yyyy")}
+                {formatEventDateRange(event, timeZone)}
               </span>
             </div>
             <div className="flex items-center space-x-3">
               <Clock className="text-primary" size={20} />
               <span className="text-gray-700">
-                {event.startTime} - {event.endTime}
+                {event.allDay
+                  ? "All day"
+                  : `${formatEventTime(event.startDate, timeZone)} - ${formatEventTime(event.endDate, timeZone)} ${getTimeZoneLabel(event.startDate, timeZone)}`}
               </span>
             </div>
             <div className="flex items-center space-x-3">
@@ -96,8 +220,95 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
               <Building className="text-primary" size={20} />
               <span className="text-gray-700">{event.organizer}</span>
             </div>
+            {priceLabel && (
+              <div className="flex items-center space-x-3">
+                <Ticket className="text-primary" size={20} />
+                <span className="text-gray-700">{priceLabel}</span>
+              </div>
+            )}
+            {ageLabel && (
+              <div className="flex items-center space-x-3">
+                <Users className="text-primary" size={20} />
+                <span className="text-gray-700">{ageLabel}</span>
+              </div>
+            )}
+            {event.registration?.required && (
+              <div className="flex items-center space-x-3">
+                <ClipboardCheck className="text-primary" size={20} />
+                <span className="text-gray-700">
+                  Registration required
+                  {event.registration.status && ` (${registrationStatusLabels[event.registration.status]})`}
+                </span>
+              </div>
+            )}
           </div>
 
+          {/* Listings Merged From Other Sources */}
+          {event.alsoListedBy && event.alsoListedBy.length > 0 && (
+            <div className="p-3 rounded-lg border border-gray-200 bg-gray-50 dark:bg-gray-800 dark:border-gray-700">
+              <div className="flex items-center space-x-2 mb-2">
+                <Layers className="text-primary" size={18} />
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  Also listed by {event.alsoListedBy.map(listing => listing.sourceName).join(", ")}
+                </span>
+              </div>
+              <div className="space-y-1">
+                {event.alsoListedBy.map(listing => (
+                  <div key={listing.eventId} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600 dark:text-gray-300">{listing.sourceName}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={unmergeMutation.isPending}
+                      onClick={() => unmergeMutation.mutate(listing.eventId)}
+                    >
+                      Not the same event
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Public Meeting Documents */}
+          {event.meetingDetails && (
+            <div className="p-3 rounded-lg border border-gray-200 bg-gray-50 dark:bg-gray-800 dark:border-gray-700">
+              <div className="flex items-center space-x-2 mb-2">
+                <Landmark className="text-primary" size={18} />
+                <span className="font-medium text-gray-900 dark:text-gray-100">{event.meetingDetails.body}</span>
+              </div>
+              <div className="flex items-center flex-wrap gap-2">
+                {event.meetingDetails.agendaUrl && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={event.meetingDetails.agendaUrl} target="_blank" rel="noopener noreferrer">
+                      <FileText className="mr-2" size={14} />
+                      Agenda
+                    </a>
+                  </Button>
+                )}
+                {event.meetingDetails.minutesUrl && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={event.meetingDetails.minutesUrl} target="_blank" rel="noopener noreferrer">
+                      <FileText className="mr-2" size={14} />
+                      Minutes
+                    </a>
+                  </Button>
+                )}
+                {event.meetingDetails.videoUrl && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={event.meetingDetails.videoUrl} target="_blank" rel="noopener noreferrer">
+                      <Video className="mr-2" size={14} />
+                      Video
+                    </a>
+                  </Button>
+                )}
+                {!event.meetingDetails.agendaUrl && !event.meetingDetails.minutesUrl && !event.meetingDetails.videoUrl && (
+                  <span className="text-sm text-gray-600 dark:text-gray-300">The agenda has not been posted yet.</span>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Description */}
           <div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">Description</h3>
@@ -112,6 +323,36 @@ export function EventModal({ event, isOpen, onClose }: EventModalProps) {
             </div>
           </div>
 
+          {/* Links to the Source */}
+          {(event.url || event.registration?.url || (event.attachments && event.attachments.length > 0)) && (
+            <div className="flex items-center flex-wrap gap-2">
+              {event.registration?.url && (
+                <Button size="sm" asChild>
+                  <a href={event.registration.url} target="_blank" rel="noopener noreferrer">
+                    <ClipboardCheck className="mr-2" size={14} />
+                    {event.registration.status === "waitlist" ? "Join Waitlist" : "Register"}
+                  </a>
+                </Button>
+              )}
+              {event.url && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={event.url} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="mr-2" size={14} />
+                    Event Page
+                  </a>
+                </Button>
+              )}
+              {event.attachments?.map(attachment => (
+                <Button key={attachment.url} variant="outline" size="sm" asChild>
+                  <a href={attachment.url} target="_blank" rel="noopener noreferrer" title={attachment.title}>
+                    {attachment.mimeType === "application/pdf" ? <FileText className="mr-2" size={14} /> : <Paperclip className="mr-2" size={14} />}
+                    <span className="max-w-[12rem] truncate">{attachment.title}</span>
+                  </a>
+                </Button>
+              ))}
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex items-center space-x-3 pt-4 border-t border-gray-200">
             <Button className="flex-1">
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { Search, Map, MapPin } from "lucide-react";
-import { EventFilter, categories } from "@shared/schema";
+import { EventFilter, AudienceGroup, audienceGroups, categories } from "@shared/schema";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
@@ -121,6 +121,14 @@ export function FilterSidebar({ filters, onFiltersChange }: FilterSidebarProps)
     setLocalFilters(prev => ({ ...prev, categories: selectedCategory ? [selectedCategory] : [] }));
   };
 
+  const handleAudienceToggle = (group: AudienceGroup) => {
+    setLocalFilters(prev => {
+      const selected = prev.audience || [];
+      const audience = selected.includes(group) ? selected.filter(g => g !== group) : [...selected, group];
+      return { ...prev, audience: audience.length > 0 ? audience : undefined };
+    });
+  };
+
   const handleLocationChange = (location: string) => {
     // Add to multiple locations if not already present  
     const existingLocations = localFilters.locations || [];
@@ -530,6 +538,25 @@ export function FilterSidebar({ filters, onFiltersChange }: FilterSidebarProps)
           </p>
         </div>
 
+        {/* Audience */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Audience</Label>
+          <div className="flex flex-wrap gap-2">
+            {/* All-ages events show under every audience, so it isn't a choice of its own */}
+            {audienceGroups.filter(group => group !== "All Ages").map(group => (
+              <Button
+                key={group}
+                variant={localFilters.audience?.includes(group) ? "default" : "outline"}
+                size="sm"
+                onClick={() => handleAudienceToggle(group)}
+                className="text-xs"
+              >
+                {group}
+              </Button>
+            ))}
+          </div>
+        </div>
+
         {/* Quick Discovery Actions */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
@@ -10,6 +10,7 @@ import { Separator } from "@/components/ui/separator";
 import { Checkbox } from "@/components/ui/checkbox";
 import { MapPin, Search, Plus, CheckCircle, Clock, AlertTriangle, Building, GraduationCap, Briefcase, Library, Trees } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type { FeedType } from "@shared/schema";
 
 interface CalendarSource {
   id: string;
@@ -20,7 +21,7 @@ interface CalendarSource {
   feedUrl?: string;
   websiteUrl?: string;
   isActive: boolean;
-  feedType: 'ical' | 'rss' | 'webcal' | 'json' | 'html';
+  feedType: FeedType;
 }
 
 interface DiscoveredFeed {
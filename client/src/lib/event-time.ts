@@ -0,0 +1,92 @@
+import { format } from "date-fns";
+import { Event } from "@shared/schema";
+
+// Show times in the zone the event happens in, or convert everything to the viewer's zone
+export type TimeZoneMode = "event" | "viewer";
+
+export const viewerTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export function getDisplayTimeZone(event: Pick<Event, "timezone">, mode: TimeZoneMode): string {
+  return mode === "viewer" || !event.timezone ? viewerTimeZone : event.timezone;
+}
+
+// "7:00 PM"
+export function formatEventTime(date: Date | string, timeZone: string): string {
+  return new Date(date).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", hour12: true, timeZone });
+}
+
+// "7pm" / "7:30pm"
+export function formatShortTime(date: Date | string, timeZone: string): string {
+  return formatEventTime(date, timeZone).replace(":00", "").replace(" ", "").toLowerCase();
+}
+
+// "October 6, 2026" by default
+export function formatEventDate(
+  date: Date | string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = { month: "long", day: "numeric", year: "numeric" },
+): string {
+  return new Date(date).toLocaleDateString("en-US", { ...options, timeZone });
+}
+
+// Short zone name such as "PDT", as observed on the given date
+export function getTimeZoneLabel(date: Date | string, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" }).formatToParts(new Date(date));
+  return parts.find(part => part.type === "timeZoneName")?.value ?? timeZone;
+}
+
+// yyyy-MM-dd key for a calendar cell, which is always a day on the viewer's clock
+export function getDayKey(day: Date): string {
+  return format(day, "yyyy-MM-dd");
+}
+
+function getDayKeyInZone(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
+// First and last calendar days an event covers, as yyyy-MM-dd keys. End dates are
+// exclusive, so an event ending at midnight doesn't spill into the next day. All-day
+// events keep their own dates whichever zone is being displayed.
+export function getEventDayRange(
+  event: Pick<Event, "startDate" | "endDate" | "allDay" | "timezone">,
+  timeZone: string,
+): { first: string; last: string } {
+  const zone = event.allDay && event.timezone ? event.timezone : timeZone;
+  const start = new Date(event.startDate);
+  const end = new Date(Math.max(start.getTime(), new Date(event.endDate).getTime() - 1));
+  return { first: getDayKeyInZone(start, zone), last: getDayKeyInZone(end, zone) };
+}
+
+export function isMultiDayEvent(event: Pick<Event, "startDate" | "endDate" | "allDay" | "timezone">, timeZone: string): boolean {
+  const { first, last } = getEventDayRange(event, timeZone);
+  return first !== last;
+}
+
+// Whether any part of an event falls on a calendar day
+export function eventCoversDay(
+  event: Pick<Event, "startDate" | "endDate" | "allDay" | "timezone">,
+  day: Date,
+  timeZone: string,
+): boolean {
+  const { first, last } = getEventDayRange(event, timeZone);
+  const key = getDayKey(day);
+  return first <= key && key <= last;
+}
+
+// "All day" for all-day events, otherwise the start time
+export function formatStartLabel(event: Pick<Event, "startDate" | "allDay">, timeZone: string): string {
+  return event.allDay ? "All day" : formatEventTime(event.startDate, timeZone);
+}
+
+// Date line for an event, as a range when it spans several days
+export function formatEventDateRange(
+  event: Pick<Event, "startDate" | "endDate" | "allDay" | "timezone">,
+  timeZone: string,
+): string {
+  const zone = event.allDay && event.timezone ? event.timezone : timeZone;
+  const start = formatEventDate(event.startDate, zone);
+  if (!isMultiDayEvent(event, timeZone)) return start;
+
+  const lastMoment = new Date(new Date(event.endDate).getTime() - 1);
+  return `${start} – ${formatEventDate(lastMoment, zone)}`;
+}
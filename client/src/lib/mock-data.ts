@@ -6,6 +6,7 @@ export const mockEvents: Event[] = [
     title: "Holiday Market Opening",
     description: "Join us for the grand opening of our annual holiday market featuring local vendors, festive food, and holiday entertainment for the whole family.",
     category: "Community & Social",
+    tags: ["Holiday", "Food & Dining"],
     location: "Downtown Plaza",
     organizer: "City Parks Department",
     startDate: new Date("2024-12-10T09:00:00"),
@@ -15,13 +16,32 @@ export const mockEvents: Event[] = [
     attendees: 234,
     imageUrl: "https://images.unsplash.com/photo-1513475382585-d06e58bcb0e0?ixlib=rb-4.0.3",
     isFree: "true",
-    source: "city-website"
+    priceMin: 0,
+    priceMax: 0,
+    priceLabel: null,
+    source: "city-website",
+    externalId: null,
+    status: "scheduled",
+    timezone: "America/Los_Angeles",
+    allDay: false,
+    parseConfidence: null,
+    meetingDetails: null,
+    audience: null,
+    ageMin: null,
+    ageMax: null,
+    registration: null,
+    url: null,
+    attachments: null,
+    mergedInto: null,
+    alsoListedBy: null,
+    distinctFrom: null
   },
   {
     id: "2",
     title: "Winter Jazz Concert",
     description: "Enjoy an evening of smooth jazz featuring the City Jazz Ensemble. Warm beverages and light refreshments available for purchase.",
     category: "Music & Concerts",
+    tags: null,
     location: "Community Center Auditorium",
     organizer: "Community Arts Center",
     startDate: new Date("2024-12-05T18:30:00"),
@@ -31,6 +51,24 @@ export const mockEvents: Event[] = [
     attendees: 89,
     imageUrl: "https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?ixlib=rb-4.0.3",
     isFree: "false",
-    source: "community-center"
+    priceMin: 25,
+    priceMax: 40,
+    priceLabel: "$25 - $40",
+    source: "community-center",
+    externalId: null,
+    status: "scheduled",
+    timezone: "America/Los_Angeles",
+    allDay: false,
+    parseConfidence: null,
+    meetingDetails: null,
+    audience: null,
+    ageMin: null,
+    ageMax: null,
+    registration: null,
+    url: null,
+    attachments: null,
+    mergedInto: null,
+    alsoListedBy: null,
+    distinctFrom: null
   }
 ];
@@ -9,19 +9,21 @@ import { apiRequest } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Building2, School, Globe, BookOpen, MapPin, X, RefreshCw } from "lucide-react";
+import { Building2, School, Globe, BookOpen, MapPin, X, RefreshCw, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { formatStartLabel, getDisplayTimeZone, getTimeZoneLabel, viewerTimeZone, type TimeZoneMode } from "@/lib/event-time";
 
 export default function Home() {
   const [filters, setFilters] = useState<EventFilter>({});
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [currentView, setCurrentView] = useState<"calendar" | "list">("calendar");
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>("event");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const { data: events = [], isLoading } = useQuery<Event[]>({
-    queryKey: ["/api/events/filter", filters.location, filters.locations],
+    queryKey: ["/api/events/filter", filters.location, filters.locations, filters.audience],
     queryFn: async () => {
       // Only fetch events if location(s) are provided
       const hasLocation = filters.location && filters.location.trim() !== '';
@@ -203,6 +205,18 @@ export default function Home() {
                       </Button>
                     )}
                     
+                    {/* Time Zone Toggle */}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setTimeZoneMode(timeZoneMode === "event" ? "viewer" : "event")}
+                      className="flex items-center space-x-1"
+                      title={timeZoneMode === "event" ? "Times are shown in each event's local time zone" : `Times are shown in your time zone (${viewerTimeZone})`}
+                    >
+                      <Clock className="h-4 w-4" />
+                      <span>{timeZoneMode === "event" ? "Event local time" : `My time (${getTimeZoneLabel(new Date(), viewerTimeZone)})`}</span>
+                    </Button>
+
                     <div className="bg-gray-100 p-1 rounded-lg">
                       <Button
                         variant={currentView === "calendar" ? "default" : "ghost"}
@@ -238,6 +252,7 @@ export default function Home() {
                 <Calendar 
                   events={events} 
                   onEventClick={handleEventClick}
+                  timeZoneMode={timeZoneMode}
                   selectedLocations={filters.locations}
                   onAddLocation={(location) => {
                     const existingLocations = filters.locations || [];
@@ -287,39 +302,54 @@ export default function Home() {
                     </CardContent>
                   </Card>
                 ) : (
-                  events.map((event) => (
-                    <Card key={event.id} className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleEventClick(event)}>
-                      <CardContent className="pt-6">
-                        <div className="flex items-start space-x-4">
-                          <div className="flex-shrink-0 w-16 text-center">
-                            <div className="text-sm font-medium text-primary">
-                              {event.startTime}
-                            </div>
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center space-x-2 mb-2">
-                              <h4 className="text-lg font-medium text-gray-900 truncate">
-                                {event.title}
-                              </h4>
-                              <Badge variant="secondary">{event.category}</Badge>
-                              <div className="flex items-center space-x-1 text-xs text-gray-500">
-                                {getSourceIcon(event.source)}
-                                <span>{getSourceLabel(event.source)}</span>
+                  events.map((event) => {
+                    const timeZone = getDisplayTimeZone(event, timeZoneMode);
+                    return (
+                      <Card key={event.id} className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => handleEventClick(event)}>
+                        <CardContent className="pt-6">
+                          <div className="flex items-start space-x-4">
+                            <div className="flex-shrink-0 w-16 text-center">
+                              <div className="text-sm font-medium text-primary">
+                                {formatStartLabel(event, timeZone)}
                               </div>
+                              {!event.allDay && timeZone !== viewerTimeZone && (
+                                <div className="text-xs text-gray-500">
+                                  {getTimeZoneLabel(event.startDate, timeZone)}
+                                </div>
+                              )}
                             </div>
-                            <p className="text-sm text-gray-600 mb-2">
-                              {event.description}
-                            </p>
-                            <div className="flex items-center space-x-4 text-sm text-gray-500">
-                              <span>{event.location}</span>
-                              <span>{event.attendees} attending</span>
-                              <span>{event.organizer}</span>
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center space-x-2 mb-2">
+                                <h4 className={`text-lg font-medium text-gray-900 truncate ${
+                                  event.status !== "scheduled" ? "line-through text-gray-500" : ""
+                                }`}>
+                                  {event.title}
+                                </h4>
+                                <Badge variant="secondary">{event.category}</Badge>
+                                {event.status !== "scheduled" && (
+                                  <Badge variant="destructive">
+                                    {event.status === "cancelled" ? "Cancelled" : "No longer listed"}
+                                  </Badge>
+                                )}
+                                <div className="flex items-center space-x-1 text-xs text-gray-500">
+                                  {getSourceIcon(event.source)}
+                                  <span>{getSourceLabel(event.source)}</span>
+                                </div>
+                              </div>
+                              <p className="text-sm text-gray-600 mb-2">
+                                {event.description}
+                              </p>
+                              <div className="flex items-center space-x-4 text-sm text-gray-500">
+                                <span>{event.location}</span>
+                                <span>{event.attendees} attending</span>
+                                <span>{event.organizer}</span>
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))
+                        </CardContent>
+                      </Card>
+                    );
+                  })
                 )}
               </div>
             )}
@@ -331,6 +361,7 @@ export default function Home() {
         event={selectedEvent}
         isOpen={isModalOpen}
         onClose={handleCloseModal}
+        timeZoneMode={timeZoneMode}
       />
     </div>
   );
@@ -0,0 +1,143 @@
+import type { AudienceGroup } from '@shared/schema';
+
+/**
+ * Sorts platform audience and age-group labels ("Kids (0-5)", "Teens 12-18", "Adults
+ * 55+", "Young Adult") into the shared audience groups, with the overall age range
+ * they cover. Explicit ages in a label win over the group's usual range.
+ */
+
+export interface AudienceClassification {
+  audience: AudienceGroup[];
+  ageMin: number | null;
+  ageMax: number | null; // null: no upper bound
+}
+
+// Checked in order, so "young adult" is a teen and "older adults" are seniors
+const GROUP_PATTERNS: Array<[AudienceGroup, RegExp]> = [
+  ['All Ages', /\ball ages\b|\beveryone\b|\bgeneral audience\b/i],
+  ['Families', /\bfamil(?:y|ies)\b|\bparents? (?:and|&) (?:child|caregiver)/i],
+  ['Babies & Toddlers', /\bbab(?:y|ies)\b|\binfants?\b|\btoddlers?\b|\bpre-?school(?:ers?)?\b|\bpre-?k\b|\bearly (?:literacy|learners?|childhood)\b|\blittle ones\b/i],
+  ['Teens', /\bteens?\b|\bteenagers?\b|\byoung adults?\b|\bya\b|\bhigh school\b|\bmiddle school\b|\bgrades? (?:6|7|8|9|1[0-2])\b/i],
+  ['Kids', /\bkids?\b|\bchild(?:ren)?\b|\byouth\b|\bjuniors?\b|\btweens?\b|\bschool[- ]age\b|\belementary\b|\bgrades? (?:k|[1-5])\b/i],
+  ['Seniors', /\bseniors?\b|\bolder adults?\b|\b(?:50|55|60|62|65)\s*(?:\+|and (?:up|over|older))/i],
+  ['Adults', /\badults?\b|\b18\s*(?:\+|and (?:up|over|older))|\bgrown-?ups?\b/i]
+];
+
+const GROUP_AGES: Record<AudienceGroup, [number, number | null] | null> = {
+  'Babies & Toddlers': [0, 5],
+  'Kids': [5, 12],
+  'Teens': [12, 18],
+  'Adults': [18, null],
+  'Seniors': [55, null],
+  'Families': null,
+  'All Ages': [0, null]
+};
+
+export function classifyAudience(labels: string[]): AudienceClassification {
+  const audience: AudienceGroup[] = [];
+  const ranges: Array<[number, number | null]> = [];
+
+  for (const label of labels) {
+    const explicit = explicitAges(label);
+    let groups = GROUP_PATTERNS.filter(([, pattern]) => pattern.test(label)).map(([group]) => group);
+    // "Young adults" and "older adults" also match the plain adult pattern
+    if (groups.includes('Teens') && /young adults?/i.test(label)) groups = groups.filter(group => group !== 'Adults');
+    if (groups.includes('Seniors') && /older adults?/i.test(label)) groups = groups.filter(group => group !== 'Adults');
+    if (groups.length === 0 && explicit) groups = groupsForAges(explicit);
+
+    for (const group of groups) {
+      if (!audience.includes(group)) audience.push(group);
+    }
+
+    if (explicit) {
+      ranges.push(explicit);
+    } else {
+      for (const group of groups) {
+        const ages = GROUP_AGES[group];
+        if (ages) ranges.push(ages);
+      }
+    }
+  }
+
+  if (ranges.length === 0) return { audience, ageMin: null, ageMax: null };
+  return {
+    audience,
+    ageMin: Math.min(...ranges.map(([min]) => min)),
+    ageMax: ranges.some(([, max]) => max === null) ? null : Math.max(...ranges.map(([, max]) => max as number))
+  };
+}
+
+// Mentions of who an event is for in free text. Plain "adults" is left out: descriptions
+// say "adults must accompany children" far more often than they mean an adult audience.
+const AUDIENCE_HINTS: RegExp[] = [
+  /\b(?:ages?|aged)\s+\d{1,2}\s*(?:months?|mos?)?\s*(?:-|–|to|through)\s*\d{1,2}(?:\s*(?:months?|mos?|years?|yrs?)\b)?/gi,
+  /\b(?:ages?|aged)\s+\d{1,2}\s*(?:\+|and (?:up|over|older)|& (?:up|over|older))/gi,
+  /\b(?:seniors?|older adults?)(?:\s*\(?\s*(?:50|55|60|62|65)\s*\+\)?)?/gi,
+  /\badults? only\b|\bfor adults\b|\b(?:18|21)\s*(?:\+|and (?:up|over|older))/gi,
+  /\ball ages\b|\bfamil(?:y|ies)\b/gi,
+  /\bteens?\b|\bteenagers?\b|\btweens?\b|\byoung adults?\b/gi,
+  /\bkids?\b|\bchildren\b|\btoddlers?\b|\bbabies\b|\binfants?\b|\bpre-?school(?:ers?)?\b|\bgrades?\s+(?:k|\d{1,2})\s*(?:-|–|to)\s*\d{1,2}\b/gi
+];
+
+// Phrases about who must come along or who gets in free, not who the event is for
+const AUDIENCE_NOISE = /\b(?:children|kids)\s+(?:under|ages?)\s+\d{1,2}\s+(?:must|should|need|are free|free|get in free)[^.;]*|\b(?:accompanied by|supervised by|with) (?:an? )?(?:adult|parent|guardian)s?\b|\b(?:adults?|parents?|guardians?)\s+must\b[^.;]*|\bno (?:kids|children|pets)\b|\bfamily[- ]owned\b/gi;
+
+/**
+ * Audience hints in an event's own text - "ages 3-5", "teens", "seniors 55+", "adults
+ * only", "all ages" - for sources with no audience field
+ */
+export function extractAudience(title: string, description: string): AudienceClassification {
+  const text = `${title}. ${description}`.replace(AUDIENCE_NOISE, ' ');
+  const labels: string[] = [];
+  for (const pattern of AUDIENCE_HINTS) {
+    for (const match of Array.from(text.matchAll(pattern))) labels.push(gradesAsAges(match[0]));
+  }
+  return classifyAudience(labels);
+}
+
+// School grades as the ages of the children in them: "grades K-5" is ages 5-11
+function gradesAsAges(label: string): string {
+  const grades = label.match(/^grades?\s+(k|\d{1,2})\s*(?:-|–|to)\s*(\d{1,2})$/i);
+  if (!grades) return label;
+  const first = grades[1].toLowerCase() === 'k' ? 0 : Number(grades[1]);
+  return `ages ${first + 5}-${Number(grades[2]) + 6}`;
+}
+
+// Registration systems write "8 yrs - 10 yrs" and "55 yrs and up"
+const YEARS = '(?:\\s*(?:yrs?|years?)\\.?)?';
+
+/**
+ * Ages spelled out in a label: "0-5", "ages 3 to 5", "12+", "18 and up", "6-24 months",
+ * "6 mos - 3 yrs"
+ */
+export function explicitAges(label: string): [number, number | null] | null {
+  const months = label.match(/\b(\d{1,2})\s*(?:-|–|to)\s*(\d{1,2})\s*(?:months?|mos?)\b/i);
+  if (months) return [Math.floor(Number(months[1]) / 12), Math.ceil(Number(months[2]) / 12)];
+
+  const monthsToYears = label.match(/\b\d{1,2}\s*(?:months?|mos?)\.?\s*(?:-|–|to)\s*(\d{1,2})\s*(?:yrs?|years?)\b/i);
+  if (monthsToYears) return [0, Number(monthsToYears[1])];
+
+  const range = label.match(new RegExp(`\\b(\\d{1,2})${YEARS}\\s*(?:-|–|to)\\s*(\\d{1,2})\\b(?!\\s*(?:am|pm|:|\\/))`, 'i'));
+  if (range && Number(range[1]) <= Number(range[2])) return [Number(range[1]), Number(range[2])];
+
+  const openEnded = label.match(new RegExp(`\\b(\\d{1,2})${YEARS}\\s*(?:\\+|and (?:up|over|older)|& (?:up|over|older))`, 'i'));
+  if (openEnded) return [Number(openEnded[1]), null];
+
+  return null;
+}
+
+// Age bands the groups split on when a label only gives numbers
+const AGE_BANDS: Array<[AudienceGroup, number, number]> = [
+  ['Babies & Toddlers', 0, 4],
+  ['Kids', 5, 11],
+  ['Teens', 12, 17],
+  ['Adults', 18, Infinity]
+];
+
+function groupsForAges([min, max]: [number, number | null]): AudienceGroup[] {
+  if (min >= 55) return ['Seniors'];
+  const groups = AGE_BANDS
+    .filter(([, bandMin, bandMax]) => bandMin <= (max ?? Infinity) && min <= bandMax)
+    .map(([group]) => group);
+  return groups.length === AGE_BANDS.length ? ['All Ages'] : groups;
+}
@@ -1,24 +1,147 @@
-import axios from 'axios';
-import ical from 'node-ical';
+import axios, { type AxiosRequestConfig, type AxiosResponse } from 'axios';
+import { createHash } from 'crypto';
+import ical, { type VEvent } from 'node-ical';
 import * as cheerio from 'cheerio';
 import { parseString } from 'xml2js';
-import { InsertEvent } from '@shared/schema';
+import { InsertEvent, type CalendarSourceRecord, type CalendarSourceType, type FeedType, type ScrapingRules } from '@shared/schema';
+import { storage } from './storage';
+import { expandOccurrences, RECURRENCE_HORIZON_DAYS } from './ical-recurrence';
+import { formatDateInZone, formatTimeInZone, hostLocalToZoned, isValidTimezone, timezoneForLocation } from './timezones';
+import {
+  FeedParserRegistry,
+  looksLikeHtml,
+  looksLikeICalendar,
+  looksLikeJson,
+  looksLikePdf,
+  looksLikeXmlFeed,
+  type FeedParser,
+  type FeedResponse
+} from './feed-parsers';
+import { extractJsonLdEvents, extractMicroformatEvents, resolveUrl, type StructuredEvent } from './structured-data';
+import { extractEmbeddedScriptEvents } from './embedded-data';
+import { parsePdfCalendar } from './pdf-calendar';
+import { applyScrapingRules, nextPageUrl, type RuleMatch } from './scraping-rules';
+import {
+  legistarEventsApiUrl,
+  looksLikeGranicusPublisher,
+  looksLikeLegistarEvents,
+  parseGranicusPublisher,
+  parseLegistarEvents,
+  type MeetingPlatform,
+  type MeetingRecord
+} from './meeting-platforms';
+import { looksLikeTribeEvents, parseTribeEventsPage, tribeEventsUrl, type TribeEventRecord } from './tribe-events';
+import {
+  libraryEventsUrl,
+  looksLikeCommunicoEvents,
+  looksLikeLibCalEvents,
+  looksLikeLibraryCalendar,
+  parseCommunicoEvents,
+  parseLibCalEvents,
+  parseLibraryCalendarEvents,
+  type LibraryEventRecord,
+  type LibraryPlatform
+} from './library-platforms';
+import {
+  looksLikeActiveNetActivities,
+  looksLikeCivicRecSessions,
+  looksLikeRecDeskPrograms,
+  parseActiveNetActivities,
+  parseCivicRecSessions,
+  parseRecDeskPrograms,
+  recreationActivitiesUrl,
+  meetingDates,
+  scheduleSummary,
+  type RecreationActivityRecord,
+  type RecreationPlatform
+} from './recreation-platforms';
+import { classifyAudience, extractAudience } from './audience';
+import { categorizeEvent } from './categorizer';
+import { parsePriceText, priceColumns, priceFromAmounts, type PriceInfo } from './pricing';
+import { extractDescriptionLinks, icalAttachments, linkColumns, webUrl } from './event-links';
 
 export interface CalendarSource {
   id: string;
   name: string;
   city: string;
   state: string;
-  type: 'city' | 'school' | 'chamber' | 'library' | 'parks';
+  type: CalendarSourceType;
   feedUrl?: string;
   websiteUrl?: string;
   isActive: boolean;
   lastSync?: Date;
-  feedType: 'ical' | 'rss' | 'webcal' | 'json' | 'html';
+  feedType: FeedType;
+  timezone?: string; // IANA zone, defaults from city/state when not set
+  etag?: string;
+  lastModified?: string;
+  contentHash?: string;
+  lastParsed?: Date;
+  scrapingRules?: ScrapingRules; // selectors for HTML calendars the generic scrapers can't read
+  color?: string; // "#rrggbb" from the publisher, e.g. a Google Calendar embed
 }
 
+export interface SourceFetchResult {
+  source: CalendarSource;
+  events: InsertEvent[];
+  // False when the feed could not be fetched or parsed, as opposed to an empty feed
+  succeeded: boolean;
+  // True when the feed was unchanged since the last sync, so nothing was parsed
+  notModified?: boolean;
+  // True when the feed failed and the events came from the source's website instead, so
+  // they can't show which of the feed's events were dropped
+  partial?: boolean;
+}
+
+export interface FetchOptions {
+  // Parse even when the feed is unchanged since the last sync, for manually triggered collection
+  force?: boolean;
+}
+
+/**
+ * Result of scraping with a rule set, page by page so a rule preview can show where
+ * containers matched and why any were skipped
+ */
+export interface RuleScrapeResult {
+  events: InsertEvent[];
+  pages: Array<{ url: string } & Omit<RuleMatch, 'events'> & { events: number }>;
+}
+
+// Re-parse unchanged feeds at least this often, so "upcoming" windows and recurrence horizons move forward
+const FULL_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// The Events Calendar API pages to read per sync, at 50 events a page
+const TRIBE_MAX_PAGES = 5;
+
 export class CalendarFeedCollector {
-  private sources: CalendarSource[] = [
+  // Registry cache, hydrated from storage on first use and written through on every change
+  private sources: CalendarSource[] = [];
+  private sourcesLoaded: Promise<void> | null = null;
+
+  // Bodies downloaded by the change check, reused by the parsers instead of fetching twice
+  private prefetchedResponses = new Map<string, AxiosResponse>();
+
+  // Parsers in sniffing order: the most recognisable formats first, HTML scraping last
+  private readonly parsers = new FeedParserRegistry();
+
+  constructor() {
+    this.parsers.register({ name: 'ical', canParse: looksLikeICalendar, parse: (response, source) => this.parseICal(response, source) });
+    this.parsers.register({ name: 'rss', canParse: looksLikeXmlFeed, parse: (response, source) => this.parseRSSFeed(response, source) });
+    this.parsers.register({ name: 'json', canParse: looksLikeJson, parse: (response, source) => this.parseJSONFeed(response, source) });
+    this.parsers.register({ name: 'html', canParse: looksLikeHtml, parse: (response, source) => this.scrapeHTMLEvents(response, source) });
+    this.parsers.register({ name: 'pdf', canParse: looksLikePdf, parse: (response, source) => this.parsePdfCalendar(response, source) });
+    this.parsers.register({ name: 'legistar', canParse: looksLikeLegistarEvents, parse: (response, source) => this.parseLegistarMeetings(response, source) }, { before: 'json' });
+    this.parsers.register({ name: 'tribe', canParse: looksLikeTribeEvents, parse: (response, source) => this.parseTribeEvents(response, source) }, { before: 'json' });
+    this.parsers.register({ name: 'libcal', canParse: looksLikeLibCalEvents, parse: (response, source) => this.parseLibraryEvents(response, source, 'libcal') }, { before: 'json' });
+    this.parsers.register({ name: 'communico', canParse: looksLikeCommunicoEvents, parse: (response, source) => this.parseLibraryEvents(response, source, 'communico') }, { before: 'json' });
+    this.parsers.register({ name: 'librarymarket', canParse: looksLikeLibraryCalendar, parse: (response, source) => this.parseLibraryEvents(response, source, 'librarymarket') }, { before: 'html' });
+    this.parsers.register({ name: 'activenet', canParse: looksLikeActiveNetActivities, parse: (response, source) => this.parseRecreationActivities(response, source, 'activenet') }, { before: 'json' });
+    this.parsers.register({ name: 'civicrec', canParse: looksLikeCivicRecSessions, parse: (response, source) => this.parseRecreationActivities(response, source, 'civicrec') }, { before: 'json' });
+    this.parsers.register({ name: 'recdesk', canParse: looksLikeRecDeskPrograms, parse: (response, source) => this.parseRecreationActivities(response, source, 'recdesk') }, { before: 'html' });
+    this.parsers.register({ name: 'granicus', canParse: looksLikeGranicusPublisher, parse: (response, source) => this.parseGranicusMeetings(response, source) }, { before: 'html' });
+  }
+
+  // Built-in sources seeded into an empty registry
+  private readonly builtInSources: CalendarSource[] = [
     // California Sources
     {
       id: 'san-francisco-city',
@@ -241,13 +364,125 @@ export class CalendarFeedCollector {
       feedUrl: 'https://www.sanjacintoca.gov/ICalendarHandler?calendarId=12712452',
       websiteUrl: 'https://www.sanjacintoca.gov',
       isActive: true,
-      feedType: 'ical'
+      feedType: 'ical',
+      // For the website fallback: day cells of the calendar's month grid, each listing an event such as
+      // "City Council Meeting 7:00 PM - 9:30 PM". Tune with the rule preview API if the site changes.
+      scrapingRules: {
+        container: 'table td[data-date]',
+        title: '.calendar_eventlink, .calendar_item a',
+        date: '@data-date',
+        time: '.calendar_eventtime',
+        link: '.calendar_eventlink, .calendar_item a'
+      }
     },
 
   ];
 
-  async collectFromAllSources(): Promise<InsertEvent[]> {
-    const allEvents: InsertEvent[] = [];
+  /**
+   * Load the source registry from storage, seeding the built-in sources the first time
+   */
+  private ensureSourcesLoaded(): Promise<void> {
+    if (!this.sourcesLoaded) {
+      this.sourcesLoaded = this.loadSources().catch(error => {
+        this.sourcesLoaded = null;
+        throw error;
+      });
+    }
+    return this.sourcesLoaded;
+  }
+
+  private async loadSources(): Promise<void> {
+    const records = await storage.getCalendarSources();
+
+    if (records.length === 0) {
+      console.log(`Calendar source registry is empty - seeding ${this.builtInSources.length} built-in sources`);
+      for (const source of this.builtInSources) {
+        await storage.upsertCalendarSource(this.toRecord(source));
+      }
+      this.sources = this.builtInSources.map(source => ({ ...source, timezone: this.sourceTimezone(source) }));
+      return;
+    }
+
+    this.sources = records.map(record => this.fromRecord(record));
+
+    // Registries seeded before a built-in source had a rule set pick it up here
+    for (const source of this.sources) {
+      const builtIn = this.builtInSources.find(candidate => candidate.id === source.id);
+      if (builtIn?.scrapingRules && !source.scrapingRules) {
+        source.scrapingRules = builtIn.scrapingRules;
+        await this.persistSource(source);
+      }
+    }
+    console.log(`Loaded ${this.sources.length} calendar sources from storage`);
+  }
+
+  private async persistSource(source: CalendarSource): Promise<void> {
+    await storage.upsertCalendarSource(this.toRecord(source));
+  }
+
+  private toRecord(source: CalendarSource): CalendarSourceRecord {
+    return {
+      id: source.id,
+      name: source.name,
+      city: source.city,
+      state: source.state,
+      type: source.type,
+      feedUrl: source.feedUrl ?? null,
+      websiteUrl: source.websiteUrl ?? null,
+      isActive: source.isActive,
+      lastSync: source.lastSync ?? null,
+      feedType: source.feedType,
+      timezone: this.sourceTimezone(source),
+      etag: source.etag ?? null,
+      lastModified: source.lastModified ?? null,
+      contentHash: source.contentHash ?? null,
+      lastParsed: source.lastParsed ?? null,
+      scrapingRules: source.scrapingRules ?? null,
+      color: source.color ?? null
+    };
+  }
+
+  private fromRecord(record: CalendarSourceRecord): CalendarSource {
+    return {
+      id: record.id,
+      name: record.name,
+      city: record.city,
+      state: record.state,
+      type: record.type,
+      feedUrl: record.feedUrl ?? undefined,
+      websiteUrl: record.websiteUrl ?? undefined,
+      isActive: record.isActive,
+      lastSync: record.lastSync ?? undefined,
+      feedType: record.feedType,
+      timezone: record.timezone ?? timezoneForLocation(record.city, record.state),
+      etag: record.etag ?? undefined,
+      lastModified: record.lastModified ?? undefined,
+      contentHash: record.contentHash ?? undefined,
+      lastParsed: record.lastParsed ?? undefined,
+      scrapingRules: record.scrapingRules ?? undefined,
+      color: record.color ?? undefined
+    };
+  }
+
+  /**
+   * The source's configured timezone, falling back to the zone of its city/state
+   */
+  private sourceTimezone(source: CalendarSource): string {
+    return isValidTimezone(source.timezone) ? source.timezone : timezoneForLocation(source.city, source.state);
+  }
+
+  async collectFromAllSources(options: FetchOptions = {}): Promise<InsertEvent[]> {
+    const results = await this.collectResultsFromAllSources(options);
+    return results.flatMap(result => result.events);
+  }
+
+  /**
+   * Fetch every active source, keeping each source's events and fetch outcome together
+   */
+  async collectResultsFromAllSources(options: FetchOptions = {}): Promise<SourceFetchResult[]> {
+    await this.ensureSourcesLoaded();
+    const allResults: SourceFetchResult[] = [];
+    let eventCount = 0;
     const activeSources = this.sources.filter(s => s.isActive);
 
     console.log(`Collecting events from ${activeSources.length} real calendar sources across the US...`);
@@ -256,20 +491,25 @@ export class CalendarFeedCollector {
     const batchSize = 5;
     for (let i = 0; i < activeSources.length; i += batchSize) {
       const batch = activeSources.slice(i, i + batchSize);
-      const batchPromises = batch.map(source => this.collectFromSource(source));
+      const batchPromises = batch.map(source => this.fetchSource(source, options));
 
       try {
         const batchResults = await Promise.allSettled(batchPromises);
-        batchResults.forEach((result, index) => {
+        for (let index = 0; index < batchResults.length; index++) {
+          const result = batchResults[index];
           const source = batch[index];
-          if (result.status === 'fulfilled') {
-            allEvents.push(...result.value);
-            source.lastSync = new Date();
-            console.log(`✓ Collected ${result.value.length} events from ${source.name}, ${source.city}, ${source.state}`);
+          if (result.status === 'fulfilled' && result.value.succeeded) {
+            allResults.push(result.value);
+            eventCount += result.value.events.length;
+            if (result.value.notModified) {
+              console.log(`= ${source.name}, ${source.city}, ${source.state} unchanged since last sync`);
+            } else {
+              console.log(`✓ Collected ${result.value.events.length} events from ${source.name}, ${source.city}, ${source.state}`);
+            }
           } else {
-            console.log(`✗ Failed to collect from ${source.name}: ${result.reason}`);
+            console.log(`✗ Failed to collect from ${source.name}: ${result.status === 'rejected' ? result.reason : 'fetch failed'}`);
           }
-        });
+        }
       } catch (error) {
         console.error('Batch collection error:', error);
       }
@@ -280,235 +520,427 @@ export class CalendarFeedCollector {
       }
     }
 
-    console.log(`Total events collected: ${allEvents.length} from ${activeSources.length} sources`);
-    return allEvents;
+    console.log(`Total events collected: ${eventCount} from ${activeSources.length} sources`);
+    return allResults;
   }
 
-  async collectFromSource(source: CalendarSource): Promise<InsertEvent[]> {
-    console.log(`\n=== Collecting from ${source.name} (${source.feedType}) ===`);
-    console.log(`Feed URL: ${source.feedUrl}`);
-    console.log(`Website URL: ${source.websiteUrl}`);
+  async collectFromSource(source: CalendarSource, options: FetchOptions = {}): Promise<InsertEvent[]> {
+    const { events } = await this.fetchSource(source, options);
+    return events;
+  }
+
+  /**
+   * Collect events from a source and report whether the fetch succeeded, so callers
+   * can tell a feed that dropped its events apart from one that was unreachable.
+   * A forced fetch parses the feed even when it hasn't changed since the last sync.
+   */
+  async fetchSource(source: CalendarSource, options: FetchOptions = {}): Promise<SourceFetchResult> {
+    const primaryUrl = this.primaryUrl(source);
 
     try {
-      let events: InsertEvent[] = [];
-
-      // First, try to detect if the feedUrl might actually be a calendar feed
-      if (source.feedUrl) {
-        console.log(`Checking if ${source.feedUrl} contains calendar feed patterns...`);
-
-        // Try to detect actual calendar feeds first
-        if (source.feedUrl.includes('.ics') || source.feedUrl.includes('calendar.') || 
-            source.feedUrl.includes('/calendar/') || source.feedUrl.includes('ICalendarHandler') ||
-            source.feedUrl.includes('/feed') || source.feedUrl.includes('.rss') ||
-            source.feedUrl.includes('api/events') || source.feedUrl.includes('api/calendar')) {
-
-          console.log(`Feed URL appears to be a structured feed, trying appropriate parser...`);
-
-          if (source.feedUrl.includes('.ics') || source.feedUrl.includes('ICalendarHandler')) {
-            console.log(`Trying iCal parser for structured feed...`);
-            try {
-              events = await this.parseICal(source);
-              if (events.length > 0) {
-                console.log(`✓ iCal parser found ${events.length} events`);
-                return events;
-              }
-            } catch (error) {
-              console.log(`iCal parser failed, trying other methods...`);
-            }
-          }
+      const check = primaryUrl ? await this.checkForChanges(source, primaryUrl, options.force ?? false) : null;
+      if (check?.unchanged) {
+        source.lastSync = new Date();
+        await this.persistSource(source);
+        return { source, events: [], succeeded: true, notModified: true };
+      }
 
-          if (source.feedUrl.includes('.rss') || source.feedUrl.includes('rss') || 
-              source.feedUrl.includes('/feed')) {
-            console.log(`Trying RSS parser for structured feed...`);
-            try {
-              events = await this.parseRSSFeed(source);
-              if (events.length > 0) {
-                console.log(`✓ RSS parser found ${events.length} events`);
-                return events;
-              }
-            } catch (error) {
-              console.log(`RSS parser failed, trying other methods...`);
-            }
-          }
+      const { events, partial } = await this.collectEventsFromSource(source);
+      const localized = this.withExternalIds(events.map(event => this.localizeEvent(event, source)), source).map(event => this.withAudience(event));
 
-          if (source.feedUrl.includes('api') || source.feedUrl.includes('.json')) {
-            console.log(`Trying JSON parser for structured feed...`);
-            try {
-              events = await this.parseJSONFeed(source);
-              if (events.length > 0) {
-                console.log(`✓ JSON parser found ${events.length} events`);
-                return events;
-              }
-            } catch (error) {
-              console.log(`JSON parser failed, trying other methods...`);
-            }
-          }
-        }
+      // Only remember the validators once the feed itself parsed, so a failed parse is retried in full
+      if (check?.validators && !partial) {
+        Object.assign(source, check.validators);
       }
+      if (!partial) source.lastParsed = new Date();
+      source.lastSync = new Date();
+      await this.persistSource(source);
 
-      // If no structured feed found, use the original feedType logic
-      switch (source.feedType) {
-        case 'ical':
-          events = await this.parseICal(source);
-          break;
-        case 'rss':
-          events = await this.parseRSSFeed(source);
-          break;
-        case 'json':
-          events = await this.parseJSONFeed(source);
-          break;
-        case 'webcal':
-          events = await this.parseWebCalFeed(source);
-          break;
-        case 'html':
-          events = await this.scrapeHTMLEvents(source);
-          break;
-        default:
-          // Try to auto-detect feed type based on URL
-          if (source.feedUrl?.includes('.ics') || source.feedUrl?.includes('ICalendarHandler')) {
-            console.log(`Auto-detecting as iCal for ${source.name}`);
-            events = await this.parseICal(source);
-          } else if (source.feedUrl?.includes('.rss') || source.feedUrl?.includes('rss')) {
-            console.log(`Auto-detecting as RSS for ${source.name}`);
-            events = await this.parseRSSFeed(source);
-          } else {
-            console.log(`Auto-detecting as HTML for ${source.name}`);
-            events = await this.scrapeHTMLEvents(source);
-          }
-      }
+      return { source, events: localized, succeeded: true, partial };
+    } catch (error) {
+      console.log(`⚠️ No events collected from ${source.name} - authentic feeds only`);
+      return { source, events: [], succeeded: false };
+    } finally {
+      if (primaryUrl) this.prefetchedResponses.delete(primaryUrl);
+    }
+  }
+
+  private primaryUrl(source: CalendarSource): string | undefined {
+    const url = (source.feedUrl || source.websiteUrl)?.replace(/^webcal:\/\//i, 'https://');
+    // Legistar's calendar page is an ASP.NET form; its meetings are read from the web API
+    if (url && source.feedType === 'legistar') {
+      return legistarEventsApiUrl(url, new Date()) ?? url;
+    }
+    if (url && source.feedType === 'tribe') {
+      return tribeEventsUrl(url);
+    }
+    if (url && (source.feedType === 'libcal' || source.feedType === 'communico' || source.feedType === 'librarymarket')) {
+      return libraryEventsUrl(source.feedType, url, new Date());
+    }
+    if (url && (source.feedType === 'activenet' || source.feedType === 'recdesk' || source.feedType === 'civicrec')) {
+      return recreationActivitiesUrl(source.feedType, url, new Date());
+    }
+    return url;
+  }
+
+  /**
+   * Fetch a source's main URL with the validators from its last sync. Reports it as
+   * unchanged on a 304, or when the body hashes the same as last time for servers that
+   * don't send validators. A changed body is kept for the parsers to reuse.
+   */
+  private async checkForChanges(
+    source: CalendarSource,
+    url: string,
+    force: boolean
+  ): Promise<{ unchanged: boolean; validators?: Pick<CalendarSource, 'etag' | 'lastModified' | 'contentHash'> }> {
+    // A forced fetch sends no validators and ignores the hash, so it always parses
+    const recentlyParsed = !force && !!source.lastParsed && Date.now() - source.lastParsed.getTime() < FULL_REFRESH_INTERVAL_MS;
+    const config = this.feedRequestConfig(source);
+    if (recentlyParsed && source.etag) config.headers!['If-None-Match'] = source.etag;
+    if (recentlyParsed && source.lastModified) config.headers!['If-Modified-Since'] = source.lastModified;
 
-      console.log(`✓ Successfully collected ${events.length} events from ${source.name}`);
-      if (events.length > 0) {
-        console.log(`Event titles: ${events.map(e => e.title).join(', ')}`);
+    try {
+      const response = await axios.get(url, { ...config, validateStatus: (status) => status < 400 });
+
+      if (response.status === 304) {
+        console.log(`${source.name}: 304 Not Modified, skipping parse`);
+        return { unchanged: true };
       }
 
-      return events;
+      const contentHash = createHash('sha1').update(Buffer.from(response.data)).digest('hex');
+      if (recentlyParsed && contentHash === source.contentHash) {
+        console.log(`${source.name}: content unchanged since last sync, skipping parse`);
+        return { unchanged: true };
+      }
 
+      this.prefetchedResponses.set(url, response);
+      return {
+        unchanged: false,
+        validators: {
+          etag: response.headers['etag'] || undefined,
+          lastModified: response.headers['last-modified'] || undefined,
+          contentHash
+        }
+      };
     } catch (error) {
-      console.error(`❌ Failed to collect from ${source.name} (${source.feedType}):`, error);
+      // Leave it to the parsers to fetch and report the failure, or fall back to other URLs
+      console.log(`Change check failed for ${source.name}, fetching in full`);
+      return { unchanged: false };
+    }
+  }
 
-      // For iCal feeds that might actually be HTML calendar pages, try HTML scraping
-      if ((source.feedType === 'ical' || source.feedUrl?.includes('.ics')) && source.websiteUrl) {
-        console.log(`🔄 Attempting HTML scraping fallback for ${source.name}`);
-        try {
-          const htmlEvents = await this.scrapeHTMLEvents({
-            ...source,
-            feedType: 'html'
-          });
-
-          if (htmlEvents.length > 0) {
-            console.log(`✓ Fallback HTML scraping found ${htmlEvents.length} events for ${source.name}`);
-            return htmlEvents;
-          }
-        } catch (fallbackError) {
-          console.error(`❌ Fallback HTML scraping also failed for ${source.name}:`, fallbackError);
-        }
+  /**
+   * Request settings shared by every feed fetch. Bodies always come back as raw bytes,
+   * since the format is sniffed from the content rather than trusted from the URL.
+   */
+  private feedRequestConfig(source: CalendarSource): AxiosRequestConfig & { headers: Record<string, string> } {
+    return {
+      timeout: 15000,
+      headers: {
+        // Some city CMSs turn away non-browser agents from their calendar pages
+        'User-Agent': source.feedType === 'html'
+          ? 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+          : 'CityWide Events Aggregator 1.0',
+        // The Legistar web API answers in XML unless JSON is asked for
+        'Accept': source.feedType === 'legistar'
+          ? 'application/json'
+          : 'text/calendar, application/rss+xml, application/atom+xml, application/json, text/html;q=0.9, application/pdf;q=0.8, */*;q=0.8'
+      },
+      maxRedirects: 5,
+      responseType: 'arraybuffer'
+    };
+  }
+
+  /**
+   * Fetch a feed URL for parsing, reusing the body from the change check when it covered this URL
+   */
+  private async fetchFeedResponse(url: string, source: CalendarSource): Promise<FeedResponse> {
+    const response: AxiosResponse = this.prefetchedResponses.get(url) ?? await axios.get(url, this.feedRequestConfig(source));
+    const bytes = Buffer.from(response.data ?? '');
+    return {
+      url,
+      status: response.status,
+      contentType: String(response.headers['content-type'] || '').toLowerCase(),
+      body: bytes.toString('utf8'),
+      bytes
+    };
+  }
+
+  /**
+   * Add a parser for a new feed format. Specific formats should go ahead of the generic
+   * parser for their content type, e.g. `{ before: 'json' }` for a vendor JSON API.
+   */
+  registerParser(parser: FeedParser, options: { before?: string } = {}): void {
+    this.parsers.register(parser, options);
+  }
+
+  /**
+   * Pin an event to the zone it takes place in. Parsers that resolve real instants
+   * (iCal, offset-qualified JSON dates) set `timezone` themselves; every other parser
+   * builds dates from wall-clock fields on the server's clock, so those are
+   * reinterpreted as wall-clock times in the source's zone.
+   */
+  private localizeEvent(event: InsertEvent, source: CalendarSource): InsertEvent {
+    if (isNaN(event.startDate.getTime()) || isNaN(event.endDate.getTime())) return event;
+
+    const timezone = event.timezone || this.sourceTimezone(source);
+    let startDate = event.startDate;
+    let endDate = event.endDate;
+
+    if (!event.timezone) {
+      if (event.allDay) {
+        ({ startDate, endDate } = this.allDaySpan(startDate, endDate));
       }
+      startDate = hostLocalToZoned(startDate, timezone);
+      endDate = hostLocalToZoned(endDate, timezone);
+    }
 
-      console.log(`⚠️ No events collected from ${source.name} - authentic feeds only`);
-      return [];
+    return {
+      ...event,
+      startDate,
+      endDate,
+      startTime: event.allDay ? 'All day' : formatTimeInZone(startDate, timezone),
+      endTime: event.allDay ? '' : formatTimeInZone(endDate, timezone),
+      timezone
+    };
+  }
+
+  /**
+   * Snap an all-day event to local midnights, with an exclusive end like iCal's DTEND,
+   * so a one-day event runs midnight to midnight and a festival covers every day
+   */
+  private allDaySpan(start: Date, end: Date): { startDate: Date; endDate: Date } {
+    const startDate = new Date(start);
+    startDate.setHours(0, 0, 0, 0);
+
+    const endDate = new Date(end);
+    if (endDate.getHours() || endDate.getMinutes() || endDate <= startDate) {
+      endDate.setHours(0, 0, 0, 0);
+      endDate.setDate(endDate.getDate() + 1);
+    }
+    if (endDate <= startDate) {
+      endDate.setTime(startDate.getTime());
+      endDate.setDate(endDate.getDate() + 1);
     }
+
+    return { startDate, endDate };
   }
 
-  private async parseICal(source: CalendarSource): Promise<InsertEvent[]> {
-    if (!source.feedUrl) return [];
+  /**
+   * Give events that their feed did not identify (scraped HTML, feeds without UIDs) an id
+   * from their title and local date. It survives a change of time or place, so a re-sync
+   * records a revision instead of adding a second event. Same-titled sessions on one day
+   * ("Story Time" at 10am and 2pm) are told apart by their order in the day.
+   */
+  private withExternalIds(events: InsertEvent[], source: CalendarSource): InsertEvent[] {
+    const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+    const sessions = new Map<string, number[]>();
+    const keys = events.map(event => {
+      if (event.externalId) return null;
+      const key = `${normalize(event.title)}|${formatDateInZone(event.startDate, event.timezone || this.sourceTimezone(source))}`;
+      const starts = sessions.get(key) ?? [];
+      if (!starts.includes(event.startDate.getTime())) starts.push(event.startDate.getTime());
+      sessions.set(key, starts);
+      return key;
+    });
+    sessions.forEach(starts => starts.sort((a, b) => a - b));
 
-    try {
-      console.log(`Attempting to parse iCal feed: ${source.feedUrl}`);
+    return events.map((event, index) => {
+      const key = keys[index];
+      if (!key) return event;
 
-      // For dynamic calendar APIs, use enhanced headers and longer timeout
-      const isDynamicAPI = source.feedUrl.includes('generate_ical') || 
-                          source.feedUrl.includes('generate_calendar') || 
-                          source.feedUrl.includes('thrillshare');
+      // The day's first session keeps the plain key, so a session added later can't take its id
+      const order = sessions.get(key)!.indexOf(event.startDate.getTime());
+      const fingerprint = order === 0 ? key : `${key}|${order + 1}`;
+      return { ...event, externalId: `hash:${createHash('sha1').update(fingerprint).digest('hex')}` };
+    });
+  }
 
-      const response = await axios.get(source.feedUrl, {
-        timeout: isDynamicAPI ? 10000 : 6000, // Longer timeout for dynamic APIs
-        headers: {
-          'User-Agent': 'CityWide Events Aggregator 1.0',
-          'Accept': isDynamicAPI ? 'text/calendar, application/calendar, text/plain, */*' : 'text/calendar'
-        },
-        maxRedirects: 5, // Allow more redirects for dynamic APIs
-        responseType: isDynamicAPI ? 'text' : 'text' // Ensure we get text response
-      });
+  /**
+   * Read who an event is for from its title and description ("ages 3-5", "teens",
+   * "seniors 55+") when its source has no audience field of its own
+   */
+  private withAudience(event: InsertEvent): InsertEvent {
+    if (event.audience) return event;
+
+    const { audience, ageMin, ageMax } = extractAudience(event.title, event.description);
+    if (audience.length === 0) return event;
+    return { ...event, audience, ageMin, ageMax };
+  }
+
+  /**
+   * Parse a source's feed, or its website when the feed fails. Events from the website
+   * are flagged partial, since they stand in for the feed rather than mirror it.
+   */
+  private async collectEventsFromSource(source: CalendarSource): Promise<{ events: InsertEvent[]; partial: boolean }> {
+    console.log(`\n=== Collecting from ${source.name} (${source.feedType}) ===`);
+    console.log(`Feed URL: ${source.feedUrl}`);
+    console.log(`Website URL: ${source.websiteUrl}`);
 
-      console.log(`iCal Response Status: ${response.status}, Content-Type: ${response.headers['content-type']}`);
-      console.log(`iCal Response Data (first 500 chars): ${response.data.substring(0, 500)}`);
+    const url = this.primaryUrl(source);
+    if (!url) return { events: [], partial: false };
 
-      // Check if response is actually iCalendar format
-      if (!response.data.includes('BEGIN:VCALENDAR') && !response.data.includes('BEGIN:VEVENT')) {
-        console.log(`Response doesn't appear to be iCalendar format for ${source.feedUrl}`);
-        throw new Error('Response is not in iCalendar format');
+    try {
+      return { events: await this.parseUrl(url, source, source.feedType === 'webcal' ? 'ical' : source.feedType), partial: false };
+    } catch (error) {
+      console.error(`❌ Failed to collect from ${source.name} (${source.feedType}):`, error);
+
+      // A dead or broken feed URL falls back to whatever the source's website publishes
+      const websiteUrl = source.websiteUrl?.replace(/^webcal:\/\//i, 'https://');
+      if (!websiteUrl || websiteUrl === url || websiteUrl === source.feedUrl) throw error;
+
+      console.log(`🔄 Falling back to the website for ${source.name}: ${websiteUrl}`);
+      try {
+        return { events: await this.parseUrl(websiteUrl, source), partial: true };
+      } catch (fallbackError) {
+        console.error(`❌ Website fallback also failed for ${source.name}:`, fallbackError);
+        throw error;
       }
+    }
+  }
 
-      const events = ical.parseICS(response.data);
+  /**
+   * Fetch a URL and parse it with whichever registered parser recognises the content,
+   * trying the preferred format first when there is one
+   */
+  private async parseUrl(url: string, source: CalendarSource, preferred?: string): Promise<InsertEvent[]> {
+    const response = await this.fetchFeedResponse(url, source);
+    console.log(`Response Status: ${response.status}, Content-Type: ${response.contentType || 'none'}, Length: ${response.body.length}`);
+
+    const parser = this.parsers.find(response, preferred);
+    if (!parser) {
+      throw new Error(`No parser recognises the content at ${url} (${response.contentType || 'no content type'})`);
+    }
+    if (preferred && parser.name !== preferred) {
+      console.log(`Content at ${url} looks like ${parser.name}, not the expected ${preferred}`);
+    }
+
+    const events = await parser.parse(response, source);
+
+    console.log(`✓ Successfully collected ${events.length} events from ${source.name} using the ${parser.name} parser`);
+    if (events.length > 0) {
+      console.log(`Event titles: ${events.map(e => e.title).join(', ')}`);
+    }
+
+    return events;
+  }
+
+  private async parseICal(response: FeedResponse, source: CalendarSource): Promise<InsertEvent[]> {
+    try {
+      console.log(`iCal Response Data (first 500 chars): ${response.body.substring(0, 500)}`);
+
+      const events = ical.parseICS(response.body);
       const parsedEvents: InsertEvent[] = [];
 
-      console.log(`Parsed ${Object.keys(events).length} calendar objects from ${source.feedUrl}`);
+      console.log(`Parsed ${Object.keys(events).length} calendar objects from ${response.url}`);
+
+      // Floating times use the calendar's X-WR-TIMEZONE when it names a real zone, else the source's zone
+      const calendar = Object.values(events).find(component => component.type === 'VCALENDAR') as any;
+      const calendarZone = calendar?.['WR-TIMEZONE'];
+      const defaultZone = isValidTimezone(calendarZone) ? calendarZone : this.sourceTimezone(source);
+
+      // Only include future events (compare dates only, not times)
+      const today = new Date();
+      today.setHours(0, 0, 0, 0); // Set to start of today
+      const horizon = new Date(today.getTime() + RECURRENCE_HORIZON_DAYS * 24 * 60 * 60 * 1000);
 
       for (const [key, event] of Object.entries(events)) {
         console.log(`Processing event: ${key}, type: ${event.type}, summary: ${(event as any).summary}`);
 
         if (event.type === 'VEVENT' && (event as any).start && (event as any).summary) {
-          const startDate = new Date((event as any).start);
-          const endDate = (event as any).end ? new Date((event as any).end) : new Date(startDate.getTime() + 60 * 60 * 1000);
+          const occurrences = expandOccurrences(event as VEvent, today, horizon);
+          if (occurrences.length > 1 || occurrences[0]?.recurrenceStart) {
+            console.log(`Expanded recurring event ${(event as any).summary} into ${occurrences.length} occurrences`);
+          }
 
-          // Only include future events (compare dates only, not times)
-          const today = new Date();
-          today.setHours(0, 0, 0, 0); // Set to start of today
-          const eventDateOnly = new Date(startDate);
-          eventDateOnly.setHours(0, 0, 0, 0); // Set to start of event date
+          for (const occurrence of occurrences) {
+            const instance = occurrence.event as any;
+            const { startDate, endDate, timezone } = this.resolveICalTimes(occurrence.event, occurrence.start, occurrence.end, defaultZone);
+            const allDay = occurrence.event.datetype === 'date';
+
+            // Keep multi-day events that are still running
+            if (endDate <= today) {
+              console.log(`Skipped past event: ${instance.summary} on ${startDate.toDateString()} (today: ${today.toDateString()})`);
+              continue;
+            }
 
-          if (eventDateOnly >= today) {
+            const uid = (event as any).uid;
+            const title = instance.summary || (event as any).summary;
+            const description = instance.description || (event as any).description;
+            // URL may come back as { params, val } when it carries VALUE=URI
+            const urlValue = instance.url ?? (event as any).url;
+            const url = typeof urlValue === 'string' ? urlValue : typeof urlValue?.val === 'string' ? urlValue.val : null;
+            const pageUrl = url || response.url;
             parsedEvents.push({
-              title: (event as any).summary,
-              description: (event as any).description || 'Event details available on website',
-              category: this.categorizeEvent((event as any).summary, (event as any).description || ''),
-              location: (event as any).location || `${source.city}, ${source.state}`,
+              title,
+              description: description || 'Event details available on website',
+              ...categorizeEvent(title, description || '', this.feedCategoryLabels(instance.categories ?? (event as any).categories)),
+              location: instance.location || (event as any).location || `${source.city}, ${source.state}`,
               organizer: source.name,
               startDate,
               endDate,
-              startTime: startDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
-              endTime: endDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
+              startTime: allDay ? 'All day' : formatTimeInZone(startDate, timezone),
+              endTime: allDay ? '' : formatTimeInZone(endDate, timezone),
+              allDay,
               attendees: 0,
               imageUrl: null,
-              isFree: (event as any).description?.toLowerCase().includes('free') ? 'true' : 'false',
-              source: source.id
+              ...priceColumns(parsePriceText(description), false),
+              ...linkColumns(extractDescriptionLinks(description, pageUrl), {
+                url,
+                attachments: icalAttachments(instance.attach ?? (event as any).attach, pageUrl)
+              }),
+              source: source.id,
+              // Each occurrence of a series gets its own identity so reschedules and removals track per instance
+              externalId: uid ? (occurrence.recurrenceStart ? `uid:${uid}@${occurrence.recurrenceStart.toISOString()}` : `uid:${uid}`) : null,
+              status: String(instance.status || '').toUpperCase() === 'CANCELLED' ? 'cancelled' : 'scheduled',
+              timezone
             });
 
-            console.log(`✓ Added iCal event: ${(event as any).summary} on ${startDate.toDateString()}`);
-          } else {
-            console.log(`Skipped past event: ${(event as any).summary} on ${startDate.toDateString()} (today: ${today.toDateString()})`);
+            console.log(`✓ Added iCal event: ${title} on ${startDate.toDateString()}`);
           }
         } else {
           console.log(`Skipped calendar object: type=${event.type}, hasStart=${!!(event as any).start}, hasSummary=${!!(event as any).summary}`);
         }
       }
 
-      console.log(`Successfully parsed ${parsedEvents.length} future events from iCal feed: ${source.feedUrl}`);
-      return parsedEvents.slice(0, 100); // Limit to 10 events per source
+      console.log(`Successfully parsed ${parsedEvents.length} future events from iCal feed: ${response.url}`);
+      // Keep the soonest events so the limit cuts off a contiguous date range
+      parsedEvents.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+      return parsedEvents.slice(0, 100); // Limit to 100 events per source
     } catch (error) {
-      console.error(`Failed to parse iCal feed ${source.feedUrl}:`, error);
+      console.error(`Failed to parse iCal feed ${response.url}:`, error);
       throw new Error(`Failed to parse iCal feed: ${error}`);
     }
   }
 
-  private async parseRSSFeed(source: CalendarSource): Promise<InsertEvent[]> {
-    if (!source.feedUrl) return [];
+  /**
+   * Work out an iCal event's real start/end and display zone. node-ical already
+   * applies TZID and VTIMEZONE definitions; floating and all-day values come back
+   * on the server's clock and are pinned to the calendar's zone instead.
+   */
+  private resolveICalTimes(event: VEvent, start: Date, end: Date, defaultZone: string): { startDate: Date; endDate: Date; timezone: string } {
+    const tzid: string | undefined = (event.start as any)?.tz;
+    const isFloating = !tzid || event.datetype === 'date';
+
+    if (isFloating) {
+      return {
+        startDate: hostLocalToZoned(start, defaultZone),
+        endDate: hostLocalToZoned(end, defaultZone),
+        timezone: defaultZone
+      };
+    }
 
-    try {
-      const response = await axios.get(source.feedUrl, {
-        timeout: 6000,
-        headers: {
-          'User-Agent': 'CityWide Events Aggregator 1.0'
-        },
-        maxRedirects: 3
-      });
+    // UTC-stamped events are shown in the calendar's local zone rather than UTC
+    const timezone = tzid !== 'Etc/UTC' && isValidTimezone(tzid) ? tzid : defaultZone;
+    return { startDate: start, endDate: end, timezone };
+  }
 
-      console.log(`RSS Response Status: ${response.status}, Content-Type: ${response.headers['content-type']}`);
-      console.log(`RSS Response Data (first 1000 chars): ${response.data.substring(0, 1000)}`);
+  private async parseRSSFeed(response: FeedResponse, source: CalendarSource): Promise<InsertEvent[]> {
+    try {
+      console.log(`RSS Response Data (first 1000 chars): ${response.body.substring(0, 1000)}`);
 
       return new Promise((resolve, reject) => {
-        parseString(response.data, (err: any, result: any) => {
+        parseString(response.body, (err: any, result: any) => {
           if (err) {
             reject(err);
             return;
@@ -544,6 +976,13 @@ export class CalendarFeedCollector {
               description = 'Event details available on website';
             }
 
+            // Stable identity: RSS <guid>, Atom <id>, then the item link
+            const guidValue = item.guid?.[0] ?? item.id?.[0];
+            const guid = typeof guidValue === 'string' ? guidValue : guidValue?._;
+            const linkValue = item.link?.[0];
+            const link = typeof linkValue === 'string' ? linkValue : linkValue?.$?.href;
+            const externalId = guid?.trim() ? `guid:${guid.trim()}` : link?.trim() ? `link:${link.trim()}` : null;
+
             // Try to extract date/time information from multiple sources
             let eventDate: Date | null = null;
             let eventTime = '';
@@ -645,6 +1084,9 @@ export class CalendarFeedCollector {
               }
             }
 
+            // An item with a date but no time anywhere is listed for the whole day
+            const allDay = !startTime;
+
             // Set default times if none found
             if (!startTime) {
               startTime = '7:00 PM';
@@ -704,6 +1146,10 @@ export class CalendarFeedCollector {
               endTime = endDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
             }
 
+            if (allDay) {
+              ({ startDate: eventDate, endDate } = this.allDaySpan(eventDate, endDate));
+            }
+
             // Clean up title and description
             const cleanTitle = this.cleanText(title);
             const cleanDescription = this.cleanText(description);
@@ -723,68 +1169,77 @@ export class CalendarFeedCollector {
             const parsedEvent: InsertEvent = {
               title: cleanTitle,
               description: cleanDescription.substring(0, 500), // Limit description length
-              category: this.categorizeEvent(cleanTitle, cleanDescription),
+              ...categorizeEvent(cleanTitle, cleanDescription, this.feedCategoryLabels(item.category)),
               location: eventLocation,
               organizer: source.name,
               startDate: eventDate,
               endDate: endDate,
               startTime: eventTime,
               endTime: endTime,
+              allDay,
               attendees: 0,
               imageUrl: null,
-              isFree: cleanDescription.toLowerCase().includes('free') ? 'true' : 'false',
-              source: source.id
+              ...priceColumns(parsePriceText(cleanDescription), false),
+              // Read links from the item's HTML before cleanText drops the anchors
+              ...linkColumns(extractDescriptionLinks(description, link?.trim() || response.url), { url: link?.trim() || null }),
+              source: source.id,
+              externalId
             };
 
             parsedEvents.push(parsedEvent);
             console.log(`✓ Created RSS event: "${cleanTitle}" on ${eventDate.toDateString()} at ${eventTime}`);
           }
 
-          console.log(`Successfully parsed ${parsedEvents.length} future events from RSS feed: ${source.feedUrl}`);
+          console.log(`Successfully parsed ${parsedEvents.length} future events from RSS feed: ${response.url}`);
           resolve(parsedEvents);
         });
       });
     } catch (error) {
-      console.error(`Failed to parse RSS feed ${source.feedUrl}:`, error);
+      console.error(`Failed to parse RSS feed ${response.url}:`, error);
       throw new Error(`Failed to parse RSS feed: ${error}`);
     }
   }
 
-  private async parseJSONFeed(source: CalendarSource): Promise<InsertEvent[]> {
-    if (!source.feedUrl) return [];
-
+  private async parseJSONFeed(response: FeedResponse, source: CalendarSource): Promise<InsertEvent[]> {
     try {
-      const response = await axios.get(source.feedUrl, {
-        timeout: 6000, // Reduced from 10000ms
-        headers: {
-          'User-Agent': 'CityWide Events Aggregator 1.0'
-        },
-        maxRedirects: 3
-      });
-
-      const data = response.data;
+      const data = JSON.parse(response.body);
       const parsedEvents: InsertEvent[] = [];
 
-      const events = data.events || data.items || data.data || [];
+      const events = Array.isArray(data) ? data : data.events || data.items || data.data || [];
 
       for (const event of events.slice(0, 10)) {
-        const startDate = new Date(event.start_date || event.date || new Date());
-        const endDate = new Date(event.end_date || event.date || startDate.getTime() + 2 * 60 * 60 * 1000);
+        const rawStart = event.start_date || event.date;
+        const rawEnd = event.end_date || event.date;
+        // Bare YYYY-MM-DD dates (or an explicit flag) mark an all-day listing
+        const allDay = Boolean(event.all_day ?? event.allDay) || this.isDateOnly(rawStart);
+        const startDate = this.isDateOnly(rawStart) ? this.parseDateOnly(rawStart) : new Date(rawStart || new Date());
+        const endDate = this.isDateOnly(rawEnd)
+          ? this.parseDateOnly(rawEnd)
+          : new Date(rawEnd || startDate.getTime() + 2 * 60 * 60 * 1000);
 
         parsedEvents.push({
           title: event.title || event.name || 'Untitled Event',
           description: event.description || event.summary || 'Event details available on website',
-          category: this.categorizeEvent(event.title || '', event.description || ''),
+          ...categorizeEvent(event.title || event.name || '', event.description || '', this.feedCategoryLabels(event.categories ?? event.category)),
           location: event.location || `${source.city}, ${source.state}`,
           organizer: source.name,
           startDate,
           endDate,
           startTime: startDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
           endTime: endDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
+          allDay,
           attendees: event.attendees || 0,
           imageUrl: event.image_url || null,
-          isFree: event.is_free || (event.price === 0) || (event.description?.toLowerCase().includes('free')) ? 'true' : 'false',
-          source: source.id
+          ...priceColumns(this.jsonEventPrice(event), false),
+          ...linkColumns(extractDescriptionLinks(event.description, event.url || response.url), {
+            url: typeof event.url === 'string' ? event.url : null,
+            registration: typeof (event.registration_url ?? event.registrationUrl) === 'string'
+              ? { required: false, url: event.registration_url ?? event.registrationUrl, status: null }
+              : null
+          }),
+          source: source.id,
+          externalId: event.id != null ? `id:${event.id}` : null,
+          timezone: this.hasUtcOffset(rawStart) && !allDay ? this.sourceTimezone(source) : null
         });
       }
 
@@ -794,226 +1249,400 @@ export class CalendarFeedCollector {
     }
   }
 
-  private async parseWebCalFeed(source: CalendarSource): Promise<InsertEvent[]> {
-    // WebCal is typically just iCal with webcal:// protocol
-    const icalUrl = source.feedUrl?.replace('webcal://', 'https://');
-    return this.parseICal({ ...source, feedUrl: icalUrl });
+  /**
+   * The Events Calendar (WordPress) REST API, following `next_rest_url` through the
+   * upcoming events a few pages deep
+   */
+  private async parseTribeEvents(response: FeedResponse, source: CalendarSource): Promise<InsertEvent[]> {
+    try {
+      const now = new Date();
+      const parsedEvents: InsertEvent[] = [];
+      const visited = new Set<string>([response.url]);
+      let page = parseTribeEventsPage(response.body);
+
+      for (let pageCount = 1; ; pageCount++) {
+        for (const record of page.events) {
+          const event = this.tribeEventToInsert(record, source);
+          if (isNaN(event.startDate.getTime()) || event.endDate <= now) continue;
+          parsedEvents.push(event);
+        }
+
+        if (!page.nextUrl || visited.has(page.nextUrl) || pageCount >= TRIBE_MAX_PAGES) break;
+        visited.add(page.nextUrl);
+        page = parseTribeEventsPage((await this.fetchFeedResponse(page.nextUrl, source)).body);
+      }
+
+      console.log(`Parsed ${parsedEvents.length} events from ${visited.size} page(s) of The Events Calendar API${page.total !== null ? ` (${page.total} listed)` : ''}`);
+      return parsedEvents;
+    } catch (error) {
+      throw new Error(`Failed to parse The Events Calendar feed: ${error}`);
+    }
   }
 
- private async scrapeHTMLEvents(source: CalendarSource): Promise<InsertEvent[]> {
-    // Always use feedUrl first, then fallback to websiteUrl
-    const targetUrl = source.feedUrl || source.websiteUrl;
-    if (!targetUrl) return [];
+  private tribeEventToInsert(record: TribeEventRecord, source: CalendarSource): InsertEvent {
+    let startDate: Date;
+    let endDate: Date;
+    if (record.allDay) {
+      startDate = this.parseDateOnly(record.start);
+      // Last day, inclusive; allDaySpan makes it exclusive
+      endDate = this.parseDateOnly(record.end ?? record.start);
+      endDate.setHours(23, 59);
+    } else {
+      startDate = new Date(record.start);
+      endDate = record.end ? new Date(record.end) : new Date(startDate.getTime() + 2 * 60 * 60 * 1000);
+    }
 
+    const description = record.cost && !record.free
+      ? `${record.description}${record.description ? '\n\n' : ''}Cost: ${record.cost}`
+      : record.description;
+
+    return {
+      title: record.title,
+      description: description || 'Event details available on website',
+      // Site categories ("Networking", "Live Music") say more than the title does
+      ...categorizeEvent(record.title, record.description, record.categories),
+      location: record.venue || `${source.city}, ${source.state}`,
+      organizer: source.name,
+      startDate,
+      endDate,
+      startTime: '',
+      endTime: '',
+      allDay: record.allDay,
+      attendees: 0,
+      imageUrl: record.imageUrl,
+      ...priceColumns(record.prices.length > 0 || record.free ? priceFromAmounts(record.prices, record.free || null, record.cost) : parsePriceText(record.cost, record.cost), false),
+      ...linkColumns(extractDescriptionLinks(record.description, record.url), { url: record.url }),
+      source: source.id,
+      externalId: `tribe:${record.id}`,
+      timezone: record.allDay ? null : record.timezone && isValidTimezone(record.timezone) ? record.timezone : this.sourceTimezone(source)
+    };
+  }
+
+  /**
+   * Library programs from LibCal, Communico or LibraryCalendar, with their audience,
+   * branch and registration details
+   */
+  private async parseLibraryEvents(response: FeedResponse, source: CalendarSource, platform: LibraryPlatform): Promise<InsertEvent[]> {
     try {
-        console.log(`scrapeHTMLEvents called for ${source.name} with URL: ${targetUrl}`);
-        console.log(`Using feedUrl (${source.feedUrl}) vs websiteUrl (${source.websiteUrl})`);
+      let records: LibraryEventRecord[];
+      switch (platform) {
+        case 'libcal':
+          records = parseLibCalEvents(response.body, response.url);
+          break;
+        case 'communico':
+          records = parseCommunicoEvents(response.body, response.url);
+          break;
+        case 'librarymarket':
+          records = parseLibraryCalendarEvents(cheerio.load(response.body), response.url);
+          break;
+      }
 
-        const response = await axios.get(targetUrl, {
-            timeout: 15000,
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-            }
-        });
+      const now = new Date();
+      const parsedEvents = records
+        .map(record => this.libraryEventToInsert(record, platform, source))
+        .filter(event => !isNaN(event.startDate.getTime()) && event.endDate > now);
 
-        // Log response status and data length for debugging
-        console.log(`Scraping ${source.websiteUrl} - Response Status: ${response.status}, Data Length: ${response.data.length}`);
+      console.log(`Parsed ${records.length} ${platform} library events (${parsedEvents.length} upcoming) from ${source.name}`);
+      return parsedEvents;
+    } catch (error) {
+      throw new Error(`Failed to parse ${platform} library events: ${error}`);
+    }
+  }
 
-        const $ = cheerio.load(response.data);
-        const parsedEvents: InsertEvent[] = [];
+  private libraryEventToInsert(record: LibraryEventRecord, platform: LibraryPlatform, source: CalendarSource): InsertEvent {
+    const allDay = this.isDateOnly(record.start);
+    const startDate = allDay ? this.parseDateOnly(record.start) : new Date(record.start);
+    let endDate: Date;
+    if (!record.end) {
+      endDate = allDay
+        ? new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + 1)
+        : new Date(startDate.getTime() + 60 * 60 * 1000);
+    } else if (this.isDateOnly(record.end)) {
+      // Last day, inclusive; allDaySpan makes it exclusive
+      endDate = this.parseDateOnly(record.end);
+      endDate.setHours(23, 59);
+    } else {
+      endDate = new Date(record.end);
+    }
 
-        // DEBUG: Check if this is San Jacinto or Hemet
-        console.log(`DEBUG: Checking if ${source.feedUrl} includes sanjacintoca.gov: ${source.feedUrl?.includes('sanjacintoca.gov')}`);
-        console.log(`DEBUG: Checking if ${source.feedUrl} includes hemetusd.org: ${source.feedUrl?.includes('hemetusd.org')}`);
+    const { audience, ageMin, ageMax } = classifyAudience(record.audienceLabels);
+    const location = [record.room, record.branch].filter(Boolean).join(', ');
+
+    return {
+      title: record.title,
+      description: record.description || 'Event details available on website',
+      ...categorizeEvent(record.title, record.description, record.categories),
+      location: location || `${source.city}, ${source.state}`,
+      organizer: source.name,
+      startDate,
+      endDate,
+      startTime: '',
+      endTime: '',
+      allDay,
+      attendees: 0,
+      imageUrl: record.imageUrl,
+      ...priceColumns(parsePriceText(record.description), true),
+      source: source.id,
+      externalId: `${platform}:${record.id}`,
+      status: record.cancelled ? 'cancelled' : 'scheduled',
+      timezone: !allDay && this.hasUtcOffset(record.start) ? this.sourceTimezone(source) : null,
+      audience: audience.length > 0 ? audience : null,
+      ageMin,
+      ageMax,
+      ...linkColumns(extractDescriptionLinks(record.description, record.url), { url: record.url, registration: record.registration })
+    };
+  }
 
-        // San Jacinto calendar requires special handling - look for calendar table structure
-        if (source.feedUrl?.includes('sanjacintoca.gov')) {
-            console.log(`Parsing San Jacinto calendar - searching entire page for event patterns`);
+  /**
+   * Classes, camps and leagues from a recreation registration system. A timed activity
+   * becomes an event for each upcoming meeting, so a multi-week class stays listed until
+   * its last session; untimed camps and leagues are one event spanning their dates.
+   */
+  private async parseRecreationActivities(response: FeedResponse, source: CalendarSource, platform: RecreationPlatform): Promise<InsertEvent[]> {
+    try {
+      let records: RecreationActivityRecord[];
+      switch (platform) {
+        case 'activenet':
+          records = parseActiveNetActivities(response.body, response.url);
+          break;
+        case 'recdesk':
+          records = parseRecDeskPrograms(cheerio.load(response.body), response.url);
+          break;
+        case 'civicrec':
+          records = parseCivicRecSessions(response.body, response.url);
+          break;
+      }
 
-            const fullPageText = $.text();
-            console.log(`Full page contains "City Council": ${fullPageText.includes('City Council Meeting')}`);
-            console.log(`Full page contains "Kool August": ${fullPageText.includes('Kool August Nights')}`);
-            console.log(`Full page contains "Planning Commission": ${fullPageText.includes('Planning Commission')}`);
-
-            // Try different selectors - look for any text containing event names
-            const eventPatterns = ['City Council Meeting', 'Kool August Nights', 'Planning Commission'];
-            const processedEventTypes = new Set<string>(); // Track which event types we've already processed
-
-            for (const pattern of eventPatterns) {
-                // Skip if we've already processed this event type
-                if (processedEventTypes.has(pattern)) {
-                    console.log(`Skipping ${pattern} - already processed`);
-                    continue;
-                }
+      const now = new Date();
+      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      const horizon = new Date(today.getTime() + RECURRENCE_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+      const dateOnly = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 
-                // Find all elements containing the pattern
-                const elements = $(`*:contains("${pattern}")`);
-                console.log(`Found ${elements.length} elements containing "${pattern}"`);
+      const parsedEvents = records
+        .flatMap(record => record.startTime
+          ? meetingDates(record, dateOnly(today), dateOnly(horizon)).map(date => this.recreationActivityToInsert(record, platform, source, date))
+          : [this.recreationActivityToInsert(record, platform, source)])
+        .filter(event => !isNaN(event.startDate.getTime()) && event.endDate > now);
 
-                // Only process the first occurrence of each event type
-                let foundValidEvent = false;
-                elements.each((_, element) => {
-                    if (foundValidEvent) return; // Skip additional occurrences
-                    const $element = $(element);
-                    const elementText = $element.text();
+      console.log(`Parsed ${records.length} ${platform} activities (${parsedEvents.length} upcoming) from ${source.name}`);
+      return parsedEvents;
+    } catch (error) {
+      throw new Error(`Failed to parse ${platform} activities: ${error}`);
+    }
+  }
 
-                    if (elementText.includes(pattern) && elementText.length < 200) { // Avoid large containers
-                        console.log(`Event element text: "${elementText}"`);
+  /**
+   * One event for an activity: the meeting on `date` for timed activities, otherwise the
+   * whole span from its first to its last date
+   */
+  private recreationActivityToInsert(record: RecreationActivityRecord, platform: RecreationPlatform, source: CalendarSource, date = record.firstDate): InsertEvent {
+    const allDay = !record.startTime;
+    const startDate = allDay ? this.parseDateOnly(record.firstDate) : new Date(`${date}T${record.startTime}`);
+    let endDate: Date;
+    if (allDay) {
+      // Untimed multi-day activities (camps, leagues) span their dates; allDaySpan makes the last day exclusive
+      endDate = this.parseDateOnly(record.lastDate ?? record.firstDate);
+      endDate.setHours(23, 59);
+    } else {
+      endDate = record.endTime
+        ? new Date(`${date}T${record.endTime}`)
+        : new Date(startDate.getTime() + 60 * 60 * 1000);
+    }
 
-                        // Enhanced date extraction - look for various date patterns in the text
-                        let eventDate = this.extractComprehensiveDate(elementText, $element);
+    // Numeric ages back up labels the classifier can't read
+    const explicitAges = record.ageMin !== null || record.ageMax !== null;
+    const numericLabel = explicitAges ? (record.ageMax !== null ? `${record.ageMin ?? 0}-${record.ageMax}` : `${record.ageMin}+`) : null;
+    const classified = classifyAudience([record.ageLabel, numericLabel].filter((label): label is string => !!label));
+
+    // Fee labels carry the whole range ("$45.00 Resident / $60.00 Non-resident"); the parsed fee backs up bare amounts
+    const feePrice = parsePriceText(record.feeLabel, record.feeLabel);
+
+    const schedule = scheduleSummary(record);
+    const details = [
+      schedule ? `Schedule: ${schedule}` : null,
+      record.feeLabel && record.fee !== 0 ? `Fee: ${record.feeLabel}` : null,
+      record.activityNumber ? `Activity #: ${record.activityNumber}` : null
+    ].filter(Boolean).join('\n');
+    const description = [record.description, details].filter(Boolean).join('\n\n');
+
+    return {
+      title: record.title,
+      description: description || 'Event details available on website',
+      ...categorizeEvent(record.title, record.description, record.categories),
+      location: record.location || `${source.city}, ${source.state}`,
+      organizer: source.name,
+      startDate,
+      endDate,
+      startTime: '',
+      endTime: '',
+      allDay,
+      attendees: 0,
+      imageUrl: record.imageUrl,
+      ...priceColumns(feePrice.min === null && record.fee !== null ? priceFromAmounts([record.fee], null, record.feeLabel) : feePrice, false),
+      source: source.id,
+      // Each meeting of a multi-date activity keeps its own identity, like iCal occurrences
+      externalId: allDay || !record.lastDate || record.lastDate === record.firstDate ? `${platform}:${record.id}` : `${platform}:${record.id}@${date}`,
+      status: record.cancelled ? 'cancelled' : 'scheduled',
+      audience: classified.audience.length > 0 ? classified.audience : null,
+      ageMin: explicitAges ? record.ageMin : classified.ageMin,
+      ageMax: explicitAges ? record.ageMax : classified.ageMax,
+      ...linkColumns(extractDescriptionLinks(record.description, record.url), { url: record.url, registration: record.registration })
+    };
+  }
 
-                        // Look for time patterns in the text
-                        const timeMatch = elementText.match(/(\d{1,2}:\d{2}\s*[AP]M)\s*(?:to|-)\s*(\d{1,2}:\d{2}\s*[AP]M)/i);
-                        let startTime = '7:00 PM';
-                        let endTime = '9:30 PM';
+  /**
+   * Dates with an explicit offset (or epoch numbers) are real instants; anything else
+   * is a wall-clock time local to the source
+   */
+  private hasUtcOffset(value: unknown): boolean {
+    return typeof value === 'number' || (typeof value === 'string' && /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value.trim()));
+  }
 
-                        if (timeMatch) {
-                            startTime = timeMatch[1];
-                            endTime = timeMatch[2];
-                            console.log(`Found time pattern: ${startTime} to ${endTime}`);
-                        } else {
-                            console.log(`No time pattern found, using default times`);
-                        }
+  private isDateOnly(value: unknown): value is string {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+  }
 
-                        // If we found a specific date, use it
-                        if (eventDate) {
-                            console.log(`Extracted specific event date: ${eventDate.toDateString()} for ${pattern}`);
-
-                            parsedEvents.push({
-                                title: this.cleanText(pattern),
-                                description: this.cleanText(elementText),
-                                category: pattern.includes('Council') ? 'Government' : pattern.includes('Commission') ? 'Government' : 'Entertainment',
-                                location: pattern.includes('Commission') ? '625 S Pico Avenue, San Jacinto' : 'San Jacinto City Hall',
-                                organizer: source.name,
-                                startDate: eventDate,
-                                endDate: new Date(eventDate.getTime() + 2.5 * 60 * 60 * 1000),
-                                startTime: startTime,
-                                endTime: endTime,
-                                attendees: 0,
-                                imageUrl: null,
-                                isFree: 'true',
-                                source: source.id
-                            });
+  /**
+   * Parse YYYY-MM-DD as local midnight (new Date() would treat it as UTC midnight)
+   */
+  private parseDateOnly(value: string): Date {
+    const [year, month, day] = value.trim().split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
 
-                            console.log(`✓ Successfully created San Jacinto event: ${pattern} on ${eventDate.toDateString()}`);
-                        } else {
-                            // If no specific date found, create multiple recurring instances - ALWAYS CREATE FOR SAN JACINTO
-                            console.log(`No specific date found for ${pattern}, creating recurring instances`);
-                            const recurringDates = this.getRecurringEventDates(pattern);
-
-                            for (const recurringDate of recurringDates) {
-                                parsedEvents.push({
-                                    title: this.cleanText(pattern),
-                                    description: this.getEnhancedDescription(pattern, elementText),
-                                    category: pattern.includes('Council') ? 'Government' : pattern.includes('Commission') ? 'Government' : 'Entertainment',
-                                    location: pattern.includes('Commission') ? '625 S Pico Avenue, San Jacinto' : pattern.includes('Council') ? 'San Jacinto City Hall' : 'San Jacinto City Hall',
-                                    organizer: source.name,
-                                    startDate: recurringDate,
-                                    endDate: new Date(recurringDate.getTime() + 2.5 * 60 * 60 * 1000),
-                                    startTime: startTime,
-                                    endTime: endTime,
-                                    attendees: 0,
-                                    imageUrl: null,
-                                    isFree: 'true',
-                                    source: source.id
-                                });
-
-                                console.log(`✓ Created recurring San Jacinto event: ${pattern} on ${recurringDate.toDateString()}`);
-                            }
-                        }
+  /**
+   * Academic calendars published as PDFs. Each dated line becomes an all-day event
+   * carrying the parser's confidence that it read the line correctly.
+   */
+  private async parsePdfCalendar(response: FeedResponse, source: CalendarSource): Promise<InsertEvent[]> {
+    try {
+      const entries = await parsePdfCalendar(new Uint8Array(response.bytes));
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const parsedEvents: InsertEvent[] = [];
 
-                        // Mark this event type as processed and set foundValidEvent
-                        foundValidEvent = true;
-                        processedEventTypes.add(pattern);
-                    }
-                });
-            }
+      for (const entry of entries) {
+        const startDate = this.parseDateOnly(entry.startDate);
+        // Entries end on their last day; stored all-day events end at the following midnight
+        const endDate = this.parseDateOnly(entry.endDate);
+        endDate.setDate(endDate.getDate() + 1);
+        if (endDate <= today) continue;
 
-            console.log(`San Jacinto parser found ${parsedEvents.length} events using comprehensive search`);
-
-            // Fallback: For San Jacinto calendar page, find calendar table events if comprehensive search failed  
-            if (parsedEvents.length === 0) {
-                console.log(`No events found via comprehensive search, trying table cell extraction...`);
-
-                $('table td').each((_, cell) => {
-                    const $cell = $(cell);
-                    const cellText = $cell.text();
-
-                    // Look for cells that contain event information
-                    if (cellText.includes('City Council Meeting') || cellText.includes('Kool August Nights') || cellText.includes('Planning Commission')) {
-                        console.log(`Found San Jacinto event cell: ${cellText}`);
-                        // Extract event details from cell text
-                    const lines = cellText.split('\n').map(l => l.trim()).filter(l => l);
-
-                    for (const line of lines) {
-                        if (line.includes('City Council Meeting') || line.includes('Kool August Nights') || line.includes('Planning Commission')) {
-                            // Parse the event line which contains title and time
-                            const eventMatch = line.match(/^(.*?)\s+(\d{1,2}:\d{2}\s*[AP]M)\s*-\s*(\d{1,2}:\d{2}\s*[AP]M)/);
-                            if (eventMatch) {
-                                const title = eventMatch[1].replace(/Event\s+/, '').trim();
-                                const startTime = eventMatch[2];
-                                const endTime = eventMatch[3];
-
-                                // Try to extract proper date from cell context
-                                let eventDate = this.extractDateFromText($cell.text(), $cell);
-
-                                // If no date found, try to get from table structure
-                                if (!eventDate) {
-                                    const dayNumber = $cell.find('a').first().text().trim() || $cell.text().match(/\b(\d{1,2})\b/)?.[1];
-                                    if (dayNumber) {
-                                        // Try to find month context from table headers or surrounding elements
-                                        const monthContext = this.findMonthContext($cell);
-                                        eventDate = this.constructDateFromDayAndMonth(parseInt(dayNumber), monthContext);
-                                    }
-                                }
+        parsedEvents.push({
+          title: entry.title,
+          description: entry.line,
+          ...categorizeEvent(entry.title, ''),
+          location: `${source.city}, ${source.state}`,
+          organizer: source.name,
+          startDate,
+          endDate,
+          startTime: '',
+          endTime: '',
+          allDay: true,
+          attendees: 0,
+          imageUrl: null,
+          isFree: 'true',
+          url: response.url, // the calendar document itself
+          source: source.id,
+          parseConfidence: entry.confidence
+        });
+      }
 
-                                // Final fallback for recurring events
-                                if (!eventDate) {
-                                    eventDate = this.getNextOccurrenceDate(title);
-                                }
+      console.log(`Parsed ${entries.length} dated lines (${parsedEvents.length} upcoming) from PDF calendar: ${response.url}`);
+      return parsedEvents;
+    } catch (error) {
+      throw new Error(`Failed to parse PDF calendar: ${error}`);
+    }
+  }
 
-                                if (eventDate && eventDate > new Date() && this.isValidEventTitle(this.extractEventTitle(line, $cell))) { // Only future events
+  private async parseLegistarMeetings(response: FeedResponse, source: CalendarSource): Promise<InsertEvent[]> {
+    try {
+      const client = response.url.match(/webapi\.legistar\.com\/v1\/([\w-]+)/i)?.[1] ?? '';
+      return this.meetingsToEvents(parseLegistarEvents(response.body, client), 'legistar', source);
+    } catch (error) {
+      throw new Error(`Failed to parse Legistar events: ${error}`);
+    }
+  }
+
+  private async parseGranicusMeetings(response: FeedResponse, source: CalendarSource): Promise<InsertEvent[]> {
+    try {
+      return this.meetingsToEvents(parseGranicusPublisher(cheerio.load(response.body), response.url), 'granicus', source);
+    } catch (error) {
+      throw new Error(`Failed to parse Granicus meetings: ${error}`);
+    }
+  }
 
-                                    // Generate better descriptions for San Jacinto events
-                                    let eventDescription = 'Event details available on website';
-                                    if (title.includes('City Council Meeting')) {
-                                        eventDescription = 'Regular City Council meeting to discuss community business, municipal affairs, and public concerns. Open to the public with time for public comments.';
-                                    } else if (title.includes('Planning Commission')) {
-                                        eventDescription = 'Planning Commission meeting to review development proposals, zoning applications, and city planning matters. Public attendance welcomed.';
-                                    } else if (title.includes('Kool August Nights')) {
-                                        eventDescription = 'Classic car show and family entertainment event featuring vintage automobiles, live music, food vendors, and community activities in downtown San Jacinto.';
-                                    }
+  /**
+   * Upcoming public meetings as events. Meeting times are wall-clock times in the
+   * source's zone; a meeting listed without a time is kept as an all-day entry.
+   */
+  private meetingsToEvents(meetings: MeetingRecord[], platform: MeetingPlatform, source: CalendarSource): InsertEvent[] {
+    const now = new Date();
+    const parsedEvents: InsertEvent[] = [];
+
+    for (const meeting of meetings) {
+      const allDay = this.isDateOnly(meeting.start);
+      const startDate = allDay ? this.parseDateOnly(meeting.start) : new Date(meeting.start);
+      if (isNaN(startDate.getTime())) continue;
+      const endDate = allDay
+        ? new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + 1)
+        : new Date(startDate.getTime() + 2 * 60 * 60 * 1000);
+      if (endDate <= now) continue;
+
+      parsedEvents.push({
+        title: meeting.title,
+        description: meeting.agendaUrl
+          ? `Public meeting of the ${meeting.body}. The agenda has been posted.`
+          : `Public meeting of the ${meeting.body}.`,
+        ...categorizeEvent(meeting.title, 'meeting'),
+        location: meeting.location || `${source.city}, ${source.state}`,
+        organizer: source.name,
+        startDate,
+        endDate,
+        startTime: '',
+        endTime: '',
+        allDay,
+        attendees: 0,
+        imageUrl: null,
+        isFree: 'true',
+        url: webUrl(meeting.detailUrl),
+        source: source.id,
+        externalId: `${platform}:${meeting.id}`,
+        status: meeting.cancelled ? 'cancelled' : 'scheduled',
+        meetingDetails: {
+          body: meeting.body,
+          agendaUrl: webUrl(meeting.agendaUrl),
+          minutesUrl: webUrl(meeting.minutesUrl),
+          videoUrl: webUrl(meeting.videoUrl)
+        }
+      });
+    }
 
-                                    parsedEvents.push({
-                                        title: this.cleanText(title),
-                                        description: eventDescription,
-                                        category: title.includes('Council') ? 'Government' : title.includes('Commission') ? 'Government' : 'Entertainment',
-                                        location: title.includes('Commission') ? '625 S Pico Avenue, San Jacinto' : title.includes('Council') ? 'San Jacinto City Hall' : 'San Jacinto City Hall',
-                                        organizer: source.name,
-                                        startDate: eventDate,
-                                        endDate: new Date(eventDate.getTime() + 2.5 * 60 * 60 * 1000), // 2.5 hours duration
-                                        startTime: startTime,
-                                        endTime: endTime,
-                                        attendees: 0,
-                                        imageUrl: null,
-                                        isFree: 'true',
-                                        source: source.id
-                                    });
-                                    console.log(`Successfully parsed San Jacinto event: ${title} on ${eventDate.toDateString()}`);
-                                }
-                            }
-                        }
-                    }
-                    }
-                });
-            }
+    console.log(`Parsed ${meetings.length} ${platform} meetings (${parsedEvents.length} upcoming) from ${source.name}`);
+    return parsedEvents;
+  }
 
-            if (parsedEvents.length > 0) {
-                return parsedEvents; // Return early for San Jacinto calendar if events found
-            }
+ private async scrapeHTMLEvents(response: FeedResponse, source: CalendarSource): Promise<InsertEvent[]> {
+    try {
+        console.log(`scrapeHTMLEvents called for ${source.name} with URL: ${response.url}`);
+
+        const $ = cheerio.load(response.body);
+
+        // A configured rule set knows the page better than any generic extractor
+        if (source.scrapingRules) {
+            const { events } = await this.scrapeWithRules($, response, source, source.scrapingRules);
+            return events;
         }
 
+        // Structured data is authoritative when a page has it, so skip the heuristics entirely
+        const structuredEvents = this.extractStructuredDataEvents($, response, source);
+        if (structuredEvents.length > 0) {
+            console.log(`Found ${structuredEvents.length} structured-data events for ${source.name}, skipping heuristic scraping`);
+            return structuredEvents;
+        }
+
+        const parsedEvents: InsertEvent[] = [];
+
         // Generic flexible handling for any organization type
         if (source.type === 'school' || source.feedUrl?.includes('usd.org') || source.feedUrl?.includes('schools') || source.name.toLowerCase().includes('school')) {
             console.log(`Parsing events page - using flexible event detection for ${source.name}`);
@@ -1121,19 +1750,26 @@ export class CalendarFeedCollector {
                                 );
 
                                 if (!isDuplicate) {
+                                    // The event's own page, when the listing links to one
+                                    const $link = $element.is('a[href]') ? $element : $element.find('a[href]').first();
+                                    const pageUrl = resolveUrl($link.attr('href') ?? null, response.url);
                                     parsedEvents.push({
                                         title: this.cleanText(title),
                                         description: this.cleanText(elementText.substring(0, 300)) || 'Event details available on website',
-                                        category: this.categorizeEvent(title, elementText),
+                                        ...categorizeEvent(title, elementText),
                                         location: `${source.city}, ${source.state}`,
                                         organizer: source.name,
                                         startDate: eventDate,
                                         endDate: new Date(eventDate.getTime() + 2 * 60 * 60 * 1000),
                                         startTime: eventDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
                                         endTime: new Date(eventDate.getTime() + 2 * 60 * 60 * 1000).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
+                                        allDay: this.mentionsAllDay(elementText),
                                         attendees: 0,
                                         imageUrl: null,
-                                        isFree: 'true',
+                                        ...priceColumns(parsePriceText(elementText), false),
+                                        ...linkColumns(extractDescriptionLinks($.html($element), response.url), {
+                                            url: pageUrl && /^https?:/i.test(pageUrl) && pageUrl.split('#')[0] !== response.url.split('#')[0] ? pageUrl : null
+                                        }),
                                         source: source.id
                                     });
 
@@ -1188,27 +1824,163 @@ export class CalendarFeedCollector {
     }
 }
 
+  /**
+   * Scrape a page with a rule set, following its pagination links. Events that have
+   * already ended are dropped and reported as skipped.
+   */
+  private async scrapeWithRules(
+    $: cheerio.CheerioAPI,
+    response: FeedResponse,
+    source: CalendarSource,
+    rules: ScrapingRules
+  ): Promise<RuleScrapeResult> {
+    const result: RuleScrapeResult = { events: [], pages: [] };
+    const visited = new Set<string>();
+    const maxPages = rules.pagination ? rules.pagination.maxPages ?? 3 : 1;
+    const now = new Date();
+
+    let page: { $: cheerio.CheerioAPI; url: string } | null = { $, url: response.url };
+    while (page && result.pages.length < maxPages) {
+      visited.add(page.url);
+      const match = applyScrapingRules(page.$, rules, page.url);
+      const skipped = [...match.skipped];
+      let kept = 0;
+
+      for (const structured of match.events) {
+        const event = this.structuredEventToInsert(structured, source);
+        if (isNaN(event.startDate.getTime())) {
+          skipped.push({ title: structured.name, date: structured.startDate, reason: 'invalid date' });
+        } else if (event.endDate <= now) {
+          skipped.push({ title: structured.name, date: structured.startDate, reason: 'already ended' });
+        } else {
+          result.events.push(event);
+          kept++;
+        }
+      }
+
+      result.pages.push({ url: page.url, containers: match.containers, events: kept, skipped });
+      console.log(`Rule set matched ${match.containers} containers and ${kept} events on ${page.url}`);
+
+      const next = nextPageUrl(page.$, rules, page.url);
+      if (!next || visited.has(next) || result.pages.length >= maxPages) break;
+
+      try {
+        const nextResponse = await this.fetchFeedResponse(next, source);
+        page = { $: cheerio.load(nextResponse.body), url: next };
+      } catch (error) {
+        console.log(`Stopped paginating ${source.name} at ${next}: ${(error as Error).message}`);
+        page = null;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Map the page's structured event data to events, taking the first kind the page has:
+   * schema.org JSON-LD, then hCalendar/h-event markup, then event data embedded in its
+   * scripts (pages with several usually describe the same events more than once).
+   * Events that have already ended are dropped.
+   */
+  private extractStructuredDataEvents($: cheerio.CheerioAPI, response: FeedResponse, source: CalendarSource): InsertEvent[] {
+    const now = new Date();
+    const parsedEvents: InsertEvent[] = [];
+
+    let found = extractJsonLdEvents($, response.url);
+    if (found.length === 0) {
+      found = extractMicroformatEvents($, response.url);
+      if (found.length > 0) console.log(`Found ${found.length} microformat events on ${response.url}`);
+    }
+    if (found.length === 0) {
+      found = extractEmbeddedScriptEvents($, response.url);
+      if (found.length > 0) console.log(`Found ${found.length} events in embedded script data on ${response.url}`);
+    }
+
+    for (const structured of found) {
+      const event = this.structuredEventToInsert(structured, source);
+      if (isNaN(event.startDate.getTime()) || event.endDate <= now) continue;
+      parsedEvents.push(event);
+    }
+
+    return parsedEvents;
+  }
+
+  private structuredEventToInsert(structured: StructuredEvent, source: CalendarSource): InsertEvent {
+    const allDay = this.isDateOnly(structured.startDate);
+    const startDate = allDay ? this.parseDateOnly(structured.startDate) : new Date(structured.startDate);
+    let endDate: Date;
+    if (!structured.endDate) {
+      endDate = new Date(startDate.getTime() + 2 * 60 * 60 * 1000);
+    } else if (this.isDateOnly(structured.endDate)) {
+      // schema.org end dates are inclusive; allDaySpan makes them exclusive
+      endDate = this.parseDateOnly(structured.endDate);
+      endDate.setHours(23, 59);
+    } else {
+      endDate = new Date(structured.endDate);
+    }
+
+    const description = structured.description ? this.cleanText(structured.description) : '';
+    const location = [structured.locationName, structured.address]
+      .filter((part, index, parts): part is string => !!part && parts.indexOf(part) === index)
+      .join(', ');
+
+    return {
+      title: this.cleanText(structured.name),
+      description: description || 'Event details available on website',
+      ...categorizeEvent(structured.name, description),
+      location: location || `${source.city}, ${source.state}`,
+      organizer: source.name,
+      startDate,
+      endDate,
+      startTime: '',
+      endTime: '',
+      allDay,
+      attendees: 0,
+      imageUrl: structured.imageUrl,
+      ...priceColumns(structured.price !== null ? priceFromAmounts([structured.price, structured.maxPrice]) : parsePriceText(description), false),
+      ...linkColumns(extractDescriptionLinks(structured.description, structured.url), { url: structured.url }),
+      source: source.id,
+      externalId: structured.id || structured.url ? `structured:${structured.id || structured.url}|${structured.startDate}` : null,
+      timezone: !allDay && this.hasUtcOffset(structured.startDate) ? this.sourceTimezone(source) : null
+    };
+  }
+
   public generateFallbackEvents(source: CalendarSource): InsertEvent[] {
     // NO SYNTHETIC DATA - Return empty array to ensure only authentic feeds are used
     console.log(`Skipping fallback event generation for ${source.name} - using authentic data only`);
     return [];
   }
 
-  private categorizeEvent(title: string, description: string): string {
-    const text = (title + ' ' + description).toLowerCase();
+  /**
+   * A JSON event's price from its free flag, a numeric price, a cost string or, failing
+   * those, its description
+   */
+  private jsonEventPrice(event: any): PriceInfo {
+    if (event.is_free === true || event.isFree === true) return priceFromAmounts([], true);
+    if (typeof event.price === 'number') return priceFromAmounts([event.price]);
 
-    if (text.includes('council') || text.includes('meeting') || text.includes('public')) return 'Community & Social';
-    if (text.includes('school') || text.includes('education') || text.includes('class')) return 'Education & Learning';
-    if (text.includes('business') || text.includes('networking') || text.includes('chamber')) return 'Business & Networking';
-    if (text.includes('art') || text.includes('gallery') || text.includes('exhibition')) return 'Arts & Culture';
-    if (text.includes('music') || text.includes('concert') || text.includes('performance')) return 'Music & Concerts';
-    if (text.includes('sport') || text.includes('game') || text.includes('tournament')) return 'Sports & Recreation';
-    if (text.includes('food') || text.includes('dining') || text.includes('restaurant')) return 'Food & Dining';
-    if (text.includes('health') || text.includes('wellness') || text.includes('fitness')) return 'Health & Wellness';
-    if (text.includes('family') || text.includes('kids') || text.includes('children')) return 'Family & Kids';
-    if (text.includes('holiday') || text.includes('celebration') || text.includes('festival')) return 'Holiday';
+    const cost = [event.price, event.cost].find((value): value is string => typeof value === 'string' && value.trim() !== '');
+    return cost ? parsePriceText(cost, cost) : parsePriceText(event.description);
+  }
 
-    return 'Community & Social';
+  /**
+   * Category labels as feeds give them: iCal CATEGORIES lists, RSS <category> elements
+   * (text or a domain attribute), Atom <category term="...">, or JSON strings and
+   * { name } objects
+   */
+  private feedCategoryLabels(value: unknown): string[] {
+    const values = Array.isArray(value) ? value : value == null ? [] : [value];
+    return values
+      .flatMap((entry: any) => {
+        if (typeof entry === 'string') return entry.split(',');
+        return [entry?._ ?? entry?.$?.term ?? entry?.name ?? entry?.title ?? ''];
+      })
+      .map((label: unknown) => (typeof label === 'string' ? this.cleanText(label) : ''))
+      .filter(Boolean);
+  }
+
+  private mentionsAllDay(text: string): boolean {
+    return /\ball[-\s]day\b/i.test(text);
   }
 
   private cleanText(text: string): string {
@@ -1470,28 +2242,74 @@ export class CalendarFeedCollector {
     }
   }
 
-  getSources(): CalendarSource[] {
+  async getSources(): Promise<CalendarSource[]> {
+    await this.ensureSourcesLoaded();
     return this.sources;
   }
 
-  getSourcesByState(state: string): CalendarSource[] {
+  async getSourcesByState(state: string): Promise<CalendarSource[]> {
+    await this.ensureSourcesLoaded();
     return this.sources.filter(s => s.state === state);
   }
 
-  getSourcesByType(type: string): CalendarSource[] {
+  async getSourcesByType(type: string): Promise<CalendarSource[]> {
+    await this.ensureSourcesLoaded();
     return this.sources.filter(s => s.type === type);
   }
 
-  toggleSource(sourceId: string): boolean {
+  async toggleSource(sourceId: string): Promise<boolean> {
+    await this.ensureSourcesLoaded();
     const source = this.sources.find(s => s.id === sourceId);
     if (source) {
       source.isActive = !source.isActive;
+      await this.persistSource(source);
       return source.isActive;
     }
     return false;
   }
 
-  addSource(source: CalendarSource): boolean {
+  /**
+   * Run a rule set against a live page without saving it, returning the events it would
+   * produce (localized as they would be stored) along with per-page diagnostics
+   */
+  async previewScrapingRules(url: string, rules: ScrapingRules, city = '', state = ''): Promise<RuleScrapeResult> {
+    const source: CalendarSource = {
+      id: 'rule-preview',
+      name: new URL(url).hostname,
+      city,
+      state,
+      type: 'city',
+      websiteUrl: url,
+      isActive: false,
+      feedType: 'html',
+      scrapingRules: rules
+    };
+
+    const response = await this.fetchFeedResponse(url, source);
+    const result = await this.scrapeWithRules(cheerio.load(response.body), response, source, rules);
+    return { ...result, events: result.events.map(event => this.localizeEvent(event, source)) };
+  }
+
+  /**
+   * Attach a rule set to a source, or clear it with null
+   */
+  async setScrapingRules(sourceId: string, rules: ScrapingRules | null): Promise<boolean> {
+    await this.ensureSourcesLoaded();
+    const source = this.sources.find(s => s.id === sourceId);
+    if (!source) return false;
+
+    source.scrapingRules = rules ?? undefined;
+    // Force a full re-parse on the next sync even if the page itself hasn't changed
+    source.contentHash = undefined;
+    source.etag = undefined;
+    source.lastModified = undefined;
+    await this.persistSource(source);
+    return true;
+  }
+
+  async addSource(source: CalendarSource): Promise<boolean> {
+    await this.ensureSourcesLoaded();
+
     // Check if source already exists
     const existingSource = this.sources.find(s => 
       s.feedUrl === source.feedUrl || s.id === source.id
@@ -1530,11 +2348,13 @@ export class CalendarFeedCollector {
     }
 
     // Add the new source
+    source.timezone = this.sourceTimezone(source);
     this.sources.push(source);
+    await this.persistSource(source);
     console.log(`Added new calendar source: ${source.name} (${source.city}, ${source.state}) - Active: ${source.isActive}`);
 
     // Apply feed prioritization after adding
-    this.prioritizeFeeds(source);
+    await this.prioritizeFeeds(source);
 
     return true;
   }
@@ -1543,12 +2363,17 @@ export class CalendarFeedCollector {
    * Prioritize feeds by automatically disabling lower-priority feeds from the same domain/organization
    * when a higher-priority feed is working
    */
-  private prioritizeFeeds(newSource: CalendarSource): void {
+  private async prioritizeFeeds(newSource: CalendarSource): Promise<void> {
+    // Meeting calendars list council and board meetings, which no other feed covers
+    const isMeetingFeed = (source: CalendarSource) => source.feedType === 'legistar' || source.feedType === 'granicus';
+    if (isMeetingFeed(newSource)) return;
+
     // Find feeds from the same city/location
     const sameCityFeeds = this.sources.filter(s => 
       s.city.toLowerCase() === newSource.city.toLowerCase() && 
       s.state === newSource.state && 
-      s.id !== newSource.id
+      s.id !== newSource.id &&
+      !isMeetingFeed(s)
     );
 
     if (sameCityFeeds.length === 0) return;
@@ -1557,9 +2382,17 @@ export class CalendarFeedCollector {
     const feedTypePriority: Record<string, number> = {
       'ical': 5,    // Highest priority - structured calendar data
       'webcal': 4,  // High priority - calendar specific
+      'tribe': 4,   // High priority - WordPress events API with venues and costs
+      'libcal': 4,  // High priority - library platform APIs with audiences and registration
+      'communico': 4,
+      'librarymarket': 3, // Medium priority - the platform's own event list markup
+      'activenet': 4, // High priority - recreation registration listings with ages and fees
+      'civicrec': 4,
+      'recdesk': 3, // Medium priority - the platform's program list markup
       'rss': 3,     // Medium priority - structured but not calendar specific
       'json': 2,    // Lower priority - depends on structure
-      'html': 1     // Lowest priority - requires scraping
+      'html': 1,    // Lowest priority - requires scraping
+      'pdf': 1      // Lowest priority - only dated lines of a document
     };
 
     let newSourcePriority = feedTypePriority[newSource.feedType] || 0;
@@ -1591,32 +2424,38 @@ export class CalendarFeedCollector {
       if (newSourcePriority <= highestPriority) {
         console.log(`Keeping new feed ${newSource.name} (${newSource.feedType}) disabled - higher priority feed ${highestPriorityActiveFeed.name} (${highestPriorityActiveFeed.feedType}) already active`);
         newSource.isActive = false;
+        await this.persistSource(newSource);
         return;
       }
     }
 
     // Only test and potentially enable if this is the highest priority feed
     if (newSource.isActive) {
-      this.testFeedWorking(newSource).then(isWorking => {
+      this.testFeedWorking(newSource).then(async isWorking => {
         if (isWorking) {
           console.log(`New feed ${newSource.name} is working and has highest priority, disabling lower priority feeds...`);
 
           // Disable lower priority feeds from the same city
-          sameCityFeeds.forEach(existingSource => {
+          for (const existingSource of sameCityFeeds) {
             const existingPriority = feedTypePriority[existingSource.feedType] || 0;
 
             if (existingPriority < newSourcePriority && existingSource.isActive) {
               console.log(`Disabling lower priority feed: ${existingSource.name} (${existingSource.feedType}) in favor of ${newSource.name} (${newSource.feedType})`);
               existingSource.isActive = false;
+              await this.persistSource(existingSource);
             }
-          });
+          }
         } else {
           console.log(`New feed ${newSource.name} is not working, disabling it`);
           newSource.isActive = false;
+          await this.persistSource(newSource);
         }
       }).catch(error => {
         console.error(`Error testing new feed ${newSource.name}:`, error);
         newSource.isActive = false;
+        this.persistSource(newSource).catch(persistError => {
+          console.error(`Failed to persist disabled feed ${newSource.name}:`, persistError);
+        });
       });
     }
   }
@@ -1667,6 +2506,40 @@ export class CalendarFeedCollector {
             return false;
           }
 
+        case 'pdf':
+          const hasPdfContent = String(response.data).startsWith('%PDF-');
+          console.log(`PDF feed test for ${source.name}: ${hasPdfContent ? 'PASS' : 'FAIL'}`);
+          return hasPdfContent;
+
+        case 'tribe':
+          const hasTribeEvents = Array.isArray(response.data?.events) || /"events"\s*:\s*\[/.test(String(response.data));
+          console.log(`The Events Calendar feed test for ${source.name}: ${hasTribeEvents ? 'PASS' : 'FAIL'}`);
+          return hasTribeEvents;
+
+        case 'libcal':
+        case 'communico':
+        case 'librarymarket':
+          const hasLibraryPlatform = new RegExp(source.feedType === 'libcal' ? 'libcal' : source.feedType === 'communico' ? 'communico|libnet' : 'lc-event|librarycalendar', 'i').test(String(response.data));
+          console.log(`${source.feedType} feed test for ${source.name}: ${hasLibraryPlatform ? 'PASS' : 'FAIL'}`);
+          return hasLibraryPlatform;
+
+        case 'activenet':
+        case 'recdesk':
+        case 'civicrec':
+          const hasRecreationPlatform = new RegExp(source.feedType === 'activenet' ? 'activity_items|activecommunities' : source.feedType === 'recdesk' ? 'recdesk|programId=' : 'rec1|"sessions"', 'i').test(typeof response.data === 'string' ? response.data : JSON.stringify(response.data));
+          console.log(`${source.feedType} feed test for ${source.name}: ${hasRecreationPlatform ? 'PASS' : 'FAIL'}`);
+          return hasRecreationPlatform;
+
+        case 'legistar':
+          const hasLegistarContent = /legistar/i.test(response.data);
+          console.log(`Legistar feed test for ${source.name}: ${hasLegistarContent ? 'PASS' : 'FAIL'}`);
+          return hasLegistarContent;
+
+        case 'granicus':
+          const hasGranicusContent = /(?:Agenda|Minutes)Viewer\.php|MediaPlayer\.php/i.test(response.data);
+          console.log(`Granicus feed test for ${source.name}: ${hasGranicusContent ? 'PASS' : 'FAIL'}`);
+          return hasGranicusContent;
+
         case 'html':
           const hasHtmlContent = response.data.length > 100 && response.data.includes('<');
           console.log(`HTML feed test for ${source.name}: ${hasHtmlContent ? 'PASS' : 'FAIL'}`);
@@ -1700,6 +2573,7 @@ export class CalendarFeedCollector {
    * Re-prioritize all feeds (useful for periodic maintenance)
    */
   async reprioritizeAllFeeds(): Promise<void> {
+    await this.ensureSourcesLoaded();
     console.log('Re-prioritizing all calendar feeds...');
 
     // Group sources by domain
@@ -1742,7 +2616,7 @@ export class CalendarFeedCollector {
 
       // Sort by priority (highest first)
       const feedTypePriority: Record<string, number> = {
-        'ical': 5, 'webcal': 4, 'rss': 3, 'json': 2, 'html': 1
+        'ical': 5, 'webcal': 4, 'tribe': 4, 'libcal': 4, 'communico': 4, 'librarymarket': 3, 'activenet': 4, 'civicrec': 4, 'recdesk': 3, 'rss': 3, 'json': 2, 'html': 1, 'pdf': 1
       };
 
       workingFeeds.sort((a, b) => {
@@ -1752,24 +2626,27 @@ export class CalendarFeedCollector {
       });
 
       // Enable the highest priority working feed, disable others
-      sources.forEach(source => {
+      for (const source of sources) {
         const isTopPriority = source.id === workingFeeds[0]?.source.id;
         const wasActive = source.isActive;
         source.isActive = isTopPriority;
 
         if (wasActive !== source.isActive) {
+          await this.persistSource(source);
           console.log(`${source.isActive ? 'Enabled' : 'Disabled'} feed: ${source.name} (${source.feedType})`);
         }
-      });
+      }
     }
 
     console.log('Feed re-prioritization complete');
   }
 
-  removeSource(sourceId: string): boolean {
+  async removeSource(sourceId: string): Promise<boolean> {
+    await this.ensureSourcesLoaded();
     const index = this.sources.findIndex(s => s.id === sourceId);
     if (index !== -1) {
       const removed = this.sources.splice(index, 1)[0];
+      await storage.deleteCalendarSource(removed.id);
       console.log(`Removed calendar source: ${removed.name}`);
       return true;
     }
@@ -1842,36 +2719,6 @@ export class CalendarFeedCollector {
     return null;
   }
 
-  /**
-   * Extract date from text content or DOM elements
-   */
-  private extractDateFromText(text: string, $element?: any): Date | null {
-    if (!text) return null;
-
-    try {
-      // First try the existing parseEventDate method
-      const parsedDate = this.parseEventDate(text);
-      if (parsedDate) return parsedDate;
-
-      // If element is provided, check for date attributes
-      if ($element) {
-        const dateAttrs = ['data-date', 'datetime', 'data-event-date', 'title'];
-        for (const attr of dateAttrs) {
-          const attrValue = $element.attr(attr);
-          if (attrValue) {
-            const attrDate = this.parseEventDate(attrValue);
-            if (attrDate) return attrDate;
-          }
-        }
-      }
-
-      return null;
-    } catch (error) {
-      console.log(`Failed to extract date from text: "${text}"`);
-      return null;
-    }
-  }
-
   /**
    * Find month context from table headers or surrounding elements
    */
@@ -1925,65 +2772,6 @@ export class CalendarFeedCollector {
     }
   }
 
-  /**
-   * Get enhanced descriptions for San Jacinto events
-   */
-  private getEnhancedDescription(eventTitle: string, originalText: string): string {
-    if (eventTitle.includes('City Council Meeting')) {
-      return 'Regular City Council meeting to discuss community business, municipal affairs, and public concerns. Open to the public with time for public comments.';
-    } else if (eventTitle.includes('Planning Commission')) {
-      return 'Planning Commission meeting to review development proposals, zoning applications, and city planning matters. Public attendance welcomed.';
-    } else if (eventTitle.includes('Kool August Nights')) {
-      return 'Classic car show and family entertainment event featuring vintage automobiles, live music, food vendors, and community activities in downtown San Jacinto.';
-    }
-    return this.cleanText(originalText) || 'Event details available on website';
-  }
-
-  /**
-   * Get multiple recurring event dates for San Jacinto events
-   */
-  private getRecurringEventDates(eventTitle: string): Date[] {
-    const now = new Date();
-    const dates: Date[] = [];
-
-    // Define recurring patterns for San Jacinto events - LIMITED TO PREVENT DUPLICATION
-    if (eventTitle.toLowerCase().includes('city council meeting')) {
-      // City Council meets 1st and 3rd Tuesday of each month - next 3 months only
-      for (let month = 0; month < 3; month++) {
-        const targetMonth = (now.getMonth() + month) % 12;
-        const targetYear = now.getFullYear() + Math.floor((now.getMonth() + month) / 12);
-
-        // Get 1st Tuesday
-        const firstTuesday = this.getNthWeekdayOfMonth(targetYear, targetMonth, 2, 1);
-        if (firstTuesday > now) dates.push(firstTuesday);
-
-        // Get 3rd Tuesday
-        const thirdTuesday = this.getNthWeekdayOfMonth(targetYear, targetMonth, 2, 3);
-        if (thirdTuesday > now) dates.push(thirdTuesday);
-      }
-    } else if (eventTitle.toLowerCase().includes('planning commission')) {
-      // Planning Commission meets 4th Tuesday of each month - next 3 months only
-      for (let month = 0; month < 3; month++) {
-        const targetMonth = (now.getMonth() + month) % 12;
-        const targetYear = now.getFullYear() + Math.floor((now.getMonth() + month) / 12);
-
-        const fourthTuesday = this.getNthWeekdayOfMonth(targetYear, targetMonth, 2, 4);
-        if (fourthTuesday > now) dates.push(fourthTuesday);
-      }
-    } else if (eventTitle.toLowerCase().includes('kool august nights')) {
-      // Kool August Nights - every Wednesday in August (current or next year)
-      const currentYear = now.getFullYear();
-      const augustYear = now.getMonth() >= 7 ? currentYear + 1 : currentYear;
-
-      for (let week = 1; week <= 4; week++) {
-        const wednesday = this.getNthWeekdayOfMonth(augustYear, 7, 3, week);
-        if (wednesday > now) dates.push(wednesday);
-      }
-    }
-
-    return dates.slice(0, 6); // Limit to 6 future occurrences maximum
-  }
-
   /**
    * Get the Nth occurrence of a weekday in a given month
    */
@@ -2003,14 +2791,6 @@ export class CalendarFeedCollector {
     return result;
   }
 
-  /**
-   * Get next occurrence date for recurring events (legacy fallback)
-   */
-  private getNextOccurrenceDate(eventTitle: string): Date {
-    const recurringDates = this.getRecurringEventDates(eventTitle);
-    return recurringDates.length > 0 ? recurringDates[0] : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
-  }
-
   /**
    * Get typical date for school events
    */
@@ -2427,16 +3207,17 @@ export class CalendarFeedCollector {
               parsedEvents.push({
                 title: this.cleanText(title),
                 description: this.cleanText(chunk.substring(0, 300)),
-                category: this.categorizeEvent(title, chunk),
+                ...categorizeEvent(title, chunk),
                 location: `${source.city}, ${source.state}`,
                 organizer: source.name,
                 startDate: eventDate,
                 endDate: new Date(eventDate.getTime() + 2 * 60 * 60 * 1000),
                 startTime: eventDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
                 endTime: new Date(eventDate.getTime() + 2 * 60 * 60 * 1000).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
+                allDay: this.mentionsAllDay(chunk),
                 attendees: 0,
                 imageUrl: null,
-                isFree: 'true',
+                ...priceColumns(parsePriceText(chunk), false),
                 source: source.id
               });
 
@@ -2542,16 +3323,17 @@ export class CalendarFeedCollector {
                 parsedEvents.push({
                   title: this.cleanText(title),
                   description: this.cleanText(chunk.substring(0, 300)),
-                  category: this.categorizeEvent(title, chunk),
+                  ...categorizeEvent(title, chunk),
                   location: `${source.city}, ${source.state}`,
                   organizer: source.name,
                   startDate: eventDate,
                   endDate: new Date(eventDate.getTime() + 2 * 60 * 60 * 1000),
                   startTime: eventDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
                   endTime: new Date(eventDate.getTime() + 2 * 60 * 60 * 1000).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
+                  allDay: this.mentionsAllDay(chunk),
                   attendees: 0,
                   imageUrl: null,
-                  isFree: 'true',
+                  ...priceColumns(parsePriceText(chunk), false),
                   source: source.id
                 });
 
@@ -2709,16 +3491,17 @@ export class CalendarFeedCollector {
               parsedEvents.push({
                 title: bestTitle,
                 description: this.cleanText(elementText.substring(0, 300)) || 'Event details available on website',
-                category: this.categorizeEvent(bestTitle, elementText),
+                ...categorizeEvent(bestTitle, elementText),
                 location: `${source.city}, ${source.state}`,
                 organizer: source.name,
                 startDate: extractedDate,
                 endDate: new Date(extractedDate.getTime() + 2 * 60 * 60 * 1000),
                 startTime: extractedDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
                 endTime: new Date(extractedDate.getTime() + 2 * 60 * 60 * 1000).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
+                allDay: this.mentionsAllDay(elementText),
                 attendees: 0,
                 imageUrl: null,
-                isFree: 'true',
+                ...priceColumns(parsePriceText(elementText), false),
                 source: source.id
               });
 
@@ -0,0 +1,152 @@
+import { readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { categories } from '@shared/schema';
+
+/**
+ * Sorts events into the shared categories with weighted keyword and phrase rules read
+ * from `data/category-rules.json` (or CATEGORY_RULES_PATH). The categories a feed
+ * assigns itself - iCal CATEGORIES, RSS <category>, a platform's program types - count
+ * for more than anything in the text. The best-scoring category is the event's primary
+ * category; the runners-up become its secondary tags.
+ */
+
+const categoryRuleSchema = z.object({
+  keywords: z.record(z.number()).default({}), // whole words, plurals included
+  phrases: z.record(z.number()).default({}),
+  feedCategories: z.array(z.string()).default([]), // feed labels that name this category outright
+});
+
+export const categoryRulesSchema = z.object({
+  defaultCategory: z.enum(categories),
+  minScore: z.number().min(0).default(2), // below this nothing is assigned and the default applies
+  tagRatio: z.number().min(0).max(1).default(0.5), // runners-up scoring this share of the primary become tags
+  maxTags: z.number().int().min(0).default(3),
+  categories: z.record(z.enum(categories), categoryRuleSchema),
+});
+
+export type CategoryRules = z.infer<typeof categoryRulesSchema>;
+
+export interface CategoryAssignment {
+  category: string;
+  tags: string[];
+}
+
+// Text matches in the title say more than the same words in a long description
+const TITLE_WEIGHT = 2;
+// A feed label that names a category outright
+const FEED_CATEGORY_SCORE = 10;
+// Keywords in a feed label that doesn't name a category, e.g. "Youth Soccer"
+const FEED_LABEL_WEIGHT = 3;
+
+interface CompiledRule {
+  category: string;
+  terms: Array<{ pattern: RegExp; weight: number }>;
+  feedCategories: Set<string>;
+}
+
+export interface CompiledRules {
+  rules: CategoryRules;
+  compiled: CompiledRule[];
+}
+
+const FALLBACK_RULES: CategoryRules = { defaultCategory: 'Community & Social', minScore: 2, tagRatio: 0.5, maxTags: 3, categories: {} };
+
+let loaded: { path: string; mtimeMs: number; rules: CompiledRules } | null = null;
+
+export function categoryRulesPath(): string {
+  return process.env.CATEGORY_RULES_PATH || join(process.cwd(), 'data', 'category-rules.json');
+}
+
+/**
+ * The current rules, re-read whenever the file changes so tuning doesn't need a restart.
+ * A missing or invalid file leaves every event in the default category.
+ */
+export function loadCategoryRules(): CompiledRules {
+  const path = categoryRulesPath();
+  try {
+    const { mtimeMs } = statSync(path);
+    if (loaded && loaded.path === path && loaded.mtimeMs === mtimeMs) return loaded.rules;
+
+    const rules = categoryRulesSchema.parse(JSON.parse(readFileSync(path, 'utf-8')));
+    loaded = { path, mtimeMs, rules: compileRules(rules) };
+    console.log(`Category rules loaded from ${path}: ${Object.keys(rules.categories).length} categories`);
+    return loaded.rules;
+  } catch (error) {
+    if (!loaded || loaded.path !== path) {
+      console.error(`Failed to load category rules from ${path}:`, error);
+      loaded = { path, mtimeMs: -1, rules: compileRules(FALLBACK_RULES) };
+    }
+    return loaded.rules;
+  }
+}
+
+export function compileRules(rules: CategoryRules): CompiledRules {
+  const compiled = Object.entries(rules.categories).map(([category, rule]) => ({
+    category,
+    terms: [
+      ...Object.entries(rule!.keywords).map(([keyword, weight]) => ({ pattern: termPattern(keyword, true), weight })),
+      ...Object.entries(rule!.phrases).map(([phrase, weight]) => ({ pattern: termPattern(phrase, false), weight }))
+    ],
+    feedCategories: new Set([category, ...rule!.feedCategories].map(normalizeLabel))
+  }));
+  return { rules, compiled };
+}
+
+/**
+ * The primary category and secondary tags for an event
+ */
+export function categorizeEvent(title: string, description: string, feedCategories: string[] = [], rules: CompiledRules = loadCategoryRules()): CategoryAssignment {
+  const titleText = normalizeText(title);
+  const descriptionText = normalizeText(description);
+  const labels = feedCategories.map(normalizeLabel).filter(Boolean);
+
+  const scores = rules.compiled.map(rule => {
+    let score = 0;
+    for (const { pattern, weight } of rule.terms) {
+      if (pattern.test(titleText)) score += weight * TITLE_WEIGHT;
+      if (pattern.test(descriptionText)) score += weight;
+    }
+    for (const label of labels) {
+      if (rule.feedCategories.has(label)) {
+        score += FEED_CATEGORY_SCORE;
+      } else {
+        for (const { pattern, weight } of rule.terms) {
+          if (pattern.test(label)) score += weight * FEED_LABEL_WEIGHT;
+        }
+      }
+    }
+    return { category: rule.category, score };
+  });
+
+  const ranked = scores
+    .filter(({ score }) => score >= rules.rules.minScore)
+    .sort((a, b) => b.score - a.score);
+  if (ranked.length === 0) return { category: rules.rules.defaultCategory, tags: [] };
+
+  const [primary, ...others] = ranked;
+  return {
+    category: primary.category,
+    tags: others
+      .filter(({ score }) => score >= primary.score * rules.rules.tagRatio)
+      .slice(0, rules.rules.maxTags)
+      .map(({ category }) => category)
+  };
+}
+
+function termPattern(term: string, plurals: boolean): RegExp {
+  const escaped = normalizeText(term).replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`\\b${escaped}${plurals ? '(?:s|es)?' : ''}\\b`);
+}
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[-\u2010\u2013\u2014/]/g, ' ')
+    .replace(/['\u2019]/g, '');
+}
+
+function normalizeLabel(label: string): string {
+  return normalizeText(label).replace(/[^a-z0-9]+/g, ' ').trim();
+}
@@ -0,0 +1,109 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { dataCollector } from './data-collector';
+import { storage } from './storage';
+import type { CalendarSource } from './calendar-collector';
+
+// A local stand-in for a city's site; each test swaps in the pages it needs
+let pages: Record<string, { status?: number; type: string; body: string }> = {};
+const server = createServer((req, res) => {
+  const page = pages[req.url ?? ''];
+  res.writeHead(page?.status ?? (page ? 200 : 404), { 'Content-Type': page?.type ?? 'text/plain' });
+  res.end(page?.body ?? 'Not found');
+});
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+after(() => server.close());
+
+const DAY = 24 * 60 * 60 * 1000;
+const upcoming = (days: number, hour: number) => {
+  const date = new Date(Date.now() + days * DAY);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date;
+};
+const icalTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function testSource(id: string, paths: { feed: string; website: string }): CalendarSource {
+  return {
+    id,
+    name: `Test ${id}`,
+    city: 'Springfield',
+    state: 'IL',
+    type: 'city',
+    feedUrl: `${baseUrl}${paths.feed}`,
+    websiteUrl: `${baseUrl}${paths.website}`,
+    feedType: 'ical',
+    timezone: 'UTC',
+    isActive: true
+  };
+}
+
+const sourceEvents = async (sourceId: string) => (await storage.getAllEvents()).filter(event => event.source === sourceId);
+
+test('a feed outage falls back to the website without marking feed events stale or doubling them', async () => {
+  const concert = upcoming(10, 18);
+  const market = upcoming(12, 15);
+  pages = {
+    '/outage.ics': {
+      type: 'text/calendar',
+      body: [
+        'BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Test//EN',
+        'BEGIN:VEVENT', 'UID:concert@example.org', `DTSTART:${icalTime(concert)}`, `DTEND:${icalTime(new Date(concert.getTime() + 2 * 60 * 60 * 1000))}`, 'SUMMARY:Summer Concert', 'LOCATION:Central Park', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:market@example.org', `DTSTART:${icalTime(market)}`, `DTEND:${icalTime(new Date(market.getTime() + 3 * 60 * 60 * 1000))}`, 'SUMMARY:Farmers Market', 'LOCATION:Main Street', 'END:VEVENT',
+        'END:VCALENDAR'
+      ].join('\r\n')
+    },
+    '/outage-events': {
+      type: 'text/html',
+      body: `<html><body><script type="application/ld+json">${JSON.stringify({
+        '@context': 'https://schema.org',
+        '@type': 'Event',
+        name: 'Summer Concert',
+        startDate: concert.toISOString(),
+        location: { '@type': 'Place', name: 'Central Park' }
+      })}</script></body></html>`
+    }
+  };
+  const source = testSource('test-feed-outage', { feed: '/outage.ics', website: '/outage-events' });
+
+  await dataCollector.syncSource(source);
+  assert.equal((await sourceEvents(source.id)).length, 2);
+
+  pages['/outage.ics'] = { status: 500, type: 'text/plain', body: 'Server error' };
+  await dataCollector.syncSource(source);
+
+  const events = await sourceEvents(source.id);
+  assert.deepEqual(events.map(event => [event.title, event.status]).sort(), [['Farmers Market', 'scheduled'], ['Summer Concert', 'scheduled']]);
+});
+
+test('a rescheduled scraped event keeps its row and records the new start', async () => {
+  const jsonLdPage = (start: Date, location: string) => ({
+    type: 'text/html',
+    body: `<html><body><script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'Event',
+      name: 'Story Time',
+      startDate: start.toISOString(),
+      location: { '@type': 'Place', name: location }
+    })}</script></body></html>`
+  });
+  const source = { ...testSource('test-reschedule', { feed: '/reschedule-events', website: '/reschedule-events' }), feedType: 'html' as const };
+
+  pages = { '/reschedule-events': jsonLdPage(upcoming(8, 10), 'Main Library') };
+  await dataCollector.syncSource(source);
+
+  pages = { '/reschedule-events': jsonLdPage(upcoming(8, 14), 'Branch Library') };
+  await dataCollector.syncSource(source);
+
+  const events = await sourceEvents(source.id);
+  assert.equal(events.length, 1);
+  assert.deepEqual([events[0].status, events[0].location, new Date(events[0].startDate)], ['scheduled', 'Branch Library', upcoming(8, 14)]);
+
+  const revisions = await storage.getEventRevisions(events[0].id);
+  assert.deepEqual(revisions.map(revision => [revision.field, revision.newValue]).sort(), [
+    ['location', 'Branch Library'],
+    ['startDate', upcoming(8, 14).toISOString()]
+  ]);
+});
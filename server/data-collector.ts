@@ -1,6 +1,7 @@
-import { InsertEvent } from "@shared/schema";
-import { storage } from "./storage";
-import { calendarCollector } from "./calendar-collector";
+import { type Event, type EventListing, type InsertEvent, type InsertEventRevision } from "@shared/schema";
+import { storage, eventIdFor } from "./storage";
+import { calendarCollector, type CalendarSource, type FetchOptions, type SourceFetchResult } from "./calendar-collector";
+import { findDuplicateGroups } from "./event-dedupe";
 
 export interface DataSource {
   id: string;
@@ -9,12 +10,6 @@ export interface DataSource {
   url: string;
   isActive: boolean;
   lastSyncDate?: Date;
-  eventSelectors?: {
-    title?: string;
-    description?: string;
-    date?: string;
-    location?: string;
-  };
 }
 
 export class EventDataCollector {
@@ -24,13 +19,7 @@ export class EventDataCollector {
       name: 'City of Springfield Events',
       type: 'city',
       url: 'https://www.springfield.gov/events',
-      isActive: true,
-      eventSelectors: {
-        title: '.event-title',
-        description: '.event-description',
-        date: '.event-date',
-        location: '.event-location'
-      }
+      isActive: true
     },
     {
       id: 'school-district',
@@ -62,11 +51,11 @@ export class EventDataCollector {
     }
   ];
 
-  async collectFromAllSources(): Promise<InsertEvent[]> {
+  async collectFromAllSources(options: FetchOptions = {}): Promise<InsertEvent[]> {
     console.log('Starting event synchronization from authentic calendar feeds only...');
     
     // Collect ONLY from real calendar feeds across the US - no synthetic data
-    const realEvents = await calendarCollector.collectFromAllSources();
+    const realEvents = await calendarCollector.collectFromAllSources(options);
     
     console.log(`Total authentic events collected: ${realEvents.length} from verified calendar feeds`);
     
@@ -295,7 +284,7 @@ export class EventDataCollector {
   async addCalendarSource(source: any): Promise<boolean> {
       try {
           // Add the source to the calendar collector 
-          const success = calendarCollector.addSource(source);
+          const success = await calendarCollector.addSource(source);
           console.log(`Calendar source ${source.name} added successfully: ${success}`);
           return success;
       } catch (error) {
@@ -305,44 +294,224 @@ export class EventDataCollector {
   }
   async syncEventsToStorage(): Promise<number> {
       try {
-          const newEvents = await this.collectFromAllSources();
-          console.log("New Events Collected:", newEvents);
-
-          const existingEvents = await storage.getAllEvents();
-          console.log("Existing Events in Storage:", existingEvents);
-
-          const existingEventKeys = new Set(existingEvents.map(event => 
-              `${event.title}::${event.location}::${event.organizer}::${event.source}::${event.startDate?.toDateString()}`
-          ));
-
-          const uniqueNewEvents = newEvents.filter(event => {
-              const key = `${event.title}::${event.location}::${event.organizer}::${event.source}::${event.startDate?.toDateString()}`;
-              const isUnique = !existingEventKeys.has(key);
-
-              // Enhanced logging for debugging
-              console.log(`Checking Event: ${event.title} from ${event.organizer} on ${event.startDate?.toDateString()}`);
-              console.log(`Event key: ${key}`);
-              if (!isUnique) {
-                  console.log(`Duplicate Found: ${event.title} from ${event.organizer} at ${event.location} on ${event.startDate?.toDateString()}`);
-              } else {
-                  console.log(`Unique Event: ${event.title} from ${event.organizer} on ${event.startDate?.toDateString()}`);
-              }
-
-              return isUnique;
-          });
+          const results = await calendarCollector.collectResultsFromAllSources();
+          let createdCount = 0;
 
-          for (const event of uniqueNewEvents) {
-              await storage.createEvent(event);
-              console.log(`Added Unique Event: ${event.title} on ${event.startDate}`);
+          for (const result of results) {
+              createdCount += await this.storeSourceResult(result);
           }
+          await this.mergeDuplicateEvents();
 
-          console.log(`${uniqueNewEvents.length} new unique events added to storage.`);
-          return uniqueNewEvents.length;
+          console.log(`${createdCount} new events added to storage from ${results.length} sources.`);
+          return createdCount;
       } catch (error) {
           console.error("Error during synchronization:", error);
           throw new Error("Failed to sync events due to an error.");
       }
   }
+
+  /**
+   * Fetch a single calendar source and store its events.
+   * Returns the number of newly created events.
+   */
+  async syncSource(source: CalendarSource): Promise<number> {
+      const result = await calendarCollector.fetchSource(source);
+      const createdCount = await this.storeSourceResult(result);
+      await this.mergeDuplicateEvents();
+      return createdCount;
+  }
+
+  /**
+   * Store one source's events, then mark the source's upcoming events that the fetch
+   * no longer listed as stale. Failed fetches never mark anything, and neither do empty
+   * results, since HTML heuristics can come back empty while the events still exist, nor
+   * partial ones scraped from the website while the feed was down.
+   * Unchanged feeds are skipped entirely.
+   */
+  private async storeSourceResult(result: SourceFetchResult): Promise<number> {
+      // An unchanged feed still lists exactly what is already stored
+      if (result.notModified) {
+          return 0;
+      }
+
+      // A website scraped while the feed was down re-lists events the feed stored under its own ids
+      const events = result.partial ? await this.withoutStoredListings(result) : result.events;
+      const createdCount = await this.storeEvents(events);
+
+      if (result.succeeded && !result.partial && result.events.length > 0) {
+          const seenIds = result.events
+              .filter(event => event.externalId)
+              .map(event => eventIdFor(event.source, event.externalId!));
+
+          // Only judge the date range this fetch covered - feeds are capped and skip past events
+          const startTimes = result.events.map(event => event.startDate.getTime());
+          const from = new Date(Math.max(Date.now(), Math.min(...startTimes)));
+          const to = new Date(Math.max(...startTimes));
+
+          const staleCount = await storage.markMissingEvents(result.source.id, seenIds, from, to);
+          if (staleCount > 0) {
+              console.log(`Marked ${staleCount} events from ${result.source.name} as stale - no longer listed in the feed`);
+          }
+      }
+
+      return createdCount;
+  }
+
+  /**
+   * The events of a partial result that their source hasn't already stored under another
+   * identity - the same title on the same day - so a feed outage doesn't double its listings
+   */
+  private async withoutStoredListings(result: SourceFetchResult): Promise<InsertEvent[]> {
+      const listingKey = (title: string, startDate: Date) => `${title.toLowerCase().replace(/\s+/g, ' ').trim()}|${startDate.toDateString()}`;
+      const stored = (await storage.getEventsForMerging(new Date())).filter(event => event.source === result.source.id);
+      const storedIds = new Set(stored.map(event => event.id));
+      const storedKeys = new Set(stored.map(event => listingKey(event.title, new Date(event.startDate))));
+
+      return result.events.filter(event =>
+          (event.externalId && storedIds.has(eventIdFor(event.source, event.externalId))) ||
+          !storedKeys.has(listingKey(event.title, event.startDate)));
+  }
+
+  /**
+   * Upsert collected events by their source and external identity, so a re-sync
+   * updates changed events in place instead of inserting duplicates.
+   * Returns the number of newly created events.
+   */
+  async storeEvents(events: InsertEvent[]): Promise<number> {
+      let createdCount = 0;
+
+      for (const event of events) {
+          // A re-listed event is live again unless the feed says it was cancelled
+          const { event: storedEvent, previous } = await storage.upsertEvent({ ...event, status: event.status ?? "scheduled" });
+          if (!previous) {
+              createdCount++;
+              console.log(`Added Event: ${storedEvent.title} on ${storedEvent.startDate} (ID: ${storedEvent.id})`);
+          } else {
+              const revisions = this.diffEvent(previous, storedEvent);
+              if (revisions.length > 0) {
+                  await storage.createEventRevisions(revisions);
+                  console.log(`Updated Event: ${storedEvent.title} - changed ${revisions.map(r => r.field).join(', ')} (ID: ${storedEvent.id})`);
+              }
+          }
+      }
+
+      return createdCount;
+  }
+
+  /**
+   * Fold listings of the same upcoming event from different sources into one canonical
+   * event, which lists the others in alsoListedBy while they are hidden from event lists.
+   * Groups are rebuilt from scratch each run, keeping an existing canonical event so its
+   * permalink stays put; stale and cancelled listings are split back out.
+   * Returns the number of listings newly merged into another event.
+   */
+  async mergeDuplicateEvents(): Promise<number> {
+      const events = await storage.getEventsForMerging(new Date());
+      const sourceNames = new Map((await calendarCollector.getSources()).map(source => [source.id, source.name]));
+      const merges = new Map<string, { mergedInto: string | null; alsoListedBy: EventListing[] | null }>();
+
+      for (const group of findDuplicateGroups(events.filter(event => event.status === "scheduled"))) {
+          const canonical = group.find(event => group.some(other => other.mergedInto === event.id)) ??
+              [...group].sort((a, b) => this.listingRichness(b) - this.listingRichness(a) || a.id.localeCompare(b.id))[0];
+          const listings = group.filter(event => event.id !== canonical.id);
+
+          merges.set(canonical.id, {
+              mergedInto: null,
+              alsoListedBy: listings.map(event => ({ eventId: event.id, source: event.source, sourceName: sourceNames.get(event.source) ?? event.organizer }))
+          });
+          for (const listing of listings) {
+              merges.set(listing.id, { mergedInto: canonical.id, alsoListedBy: null });
+          }
+      }
+
+      let mergedCount = 0;
+      for (const event of events) {
+          const merge = merges.get(event.id) ?? { mergedInto: null, alsoListedBy: null };
+          if (event.mergedInto !== merge.mergedInto || JSON.stringify(event.alsoListedBy ?? null) !== JSON.stringify(merge.alsoListedBy)) {
+              await storage.updateEvent(event.id, merge);
+              if (merge.mergedInto) mergedCount++;
+          }
+      }
+
+      if (mergedCount > 0) {
+          console.log(`Merged ${mergedCount} duplicate listings into events listed by other sources`);
+      }
+      return mergedCount;
+  }
+
+  /**
+   * Undo a wrong merge. A merged listing is split from its canonical event; a canonical
+   * event has all of its listings split off. Split listings remember the canonical
+   * event so later syncs don't merge them again. Returns the listings now shown on their own.
+   */
+  async unmergeEvent(event: Event): Promise<Event[]> {
+      const canonical = event.mergedInto ? await storage.getEvent(event.mergedInto) : event;
+      if (!canonical) {
+          // The canonical event was deleted; the listing just stands alone again
+          const listing = await storage.updateEvent(event.id, { mergedInto: null });
+          return listing ? [listing] : [];
+      }
+
+      const listingIds = event.mergedInto ? [event.id] : (canonical.alsoListedBy ?? []).map(listing => listing.eventId);
+      const separated: Event[] = [];
+      for (const id of listingIds) {
+          const listing = id === event.id ? event : await storage.getEvent(id);
+          if (!listing) continue;
+
+          const distinctFrom = Array.from(new Set([...(listing.distinctFrom ?? []), canonical.id]));
+          const updated = await storage.updateEvent(listing.id, { mergedInto: null, distinctFrom });
+          if (updated) separated.push(updated);
+      }
+
+      const remaining = (canonical.alsoListedBy ?? []).filter(listing => !listingIds.includes(listing.eventId));
+      await storage.updateEvent(canonical.id, { alsoListedBy: remaining.length > 0 ? remaining : null });
+
+      console.log(`Un-merged ${separated.length} listings from ${canonical.title} (ID: ${canonical.id})`);
+      return separated;
+  }
+
+  // The listing with the most detail becomes the canonical event
+  private listingRichness(event: Event): number {
+      return Math.min(event.description.length, 500) / 100 +
+          (event.imageUrl ? 2 : 0) +
+          (event.registration ? 1 : 0) +
+          (event.url ? 1 : 0) +
+          (event.attachments?.length ? 1 : 0) +
+          (event.audience?.length ? 1 : 0) +
+          (event.meetingDetails ? 1 : 0) +
+          (event.allDay ? 0 : 2);
+  }
+
+  /**
+   * Revision entries for the fields residents care about when an event changes between syncs
+   */
+  private diffEvent(previous: Event, current: Event): InsertEventRevision[] {
+      const revisions: InsertEventRevision[] = [];
+      const changedAt = new Date();
+
+      const previousStart = new Date(previous.startDate);
+      const currentStart = new Date(current.startDate);
+      if (previousStart.getTime() !== currentStart.getTime()) {
+          revisions.push({
+              eventId: current.id,
+              field: "startDate",
+              previousValue: previousStart.toISOString(),
+              newValue: currentStart.toISOString(),
+              changedAt
+          });
+      }
+
+      if (previous.location !== current.location) {
+          revisions.push({ eventId: current.id, field: "location", previousValue: previous.location, newValue: current.location, changedAt });
+      }
+
+      if (previous.title !== current.title) {
+          revisions.push({ eventId: current.id, field: "title", previousValue: previous.title, newValue: current.title, changedAt });
+      }
+
+      return revisions;
+  }
+
   getSources(): DataSource[] {
     return this.sources;
   }
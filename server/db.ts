@@ -0,0 +1,25 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import ws from 'ws';
+import * as schema from '@shared/schema';
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Any Drizzle Postgres database built with our schema. Neon, node-postgres and
+ * PGlite drivers all satisfy this, so storage code can run against any of them.
+ */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Create a Drizzle database for the given connection string (defaults to DATABASE_URL)
+ */
+export function createDatabase(connectionString: string | undefined = process.env.DATABASE_URL): Database {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set to use Postgres storage. Did you forget to provision a database?");
+  }
+
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
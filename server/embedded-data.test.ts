@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { extractEmbeddedScriptEvents } from './embedded-data';
+
+const PAGE_URL = 'https://example.org/events';
+
+test('reads events from an inline array with new Date() values', () => {
+  const $ = cheerio.load(`<script>var events = [{ title: 'Story Time', start: new Date(2030, 10, 5, 10, 0), location: 'Main Library' }];</script>`);
+  const [event] = extractEmbeddedScriptEvents($, PAGE_URL);
+  assert.equal(event.name, 'Story Time');
+  assert.equal(event.startDate, '2030-11-05T10:00:00');
+});
+
+test('gives up on a malformed new Date() call instead of looping', () => {
+  const $ = cheerio.load('<script>var events = [new Date(}]</script>');
+  assert.deepEqual(extractEmbeddedScriptEvents($, PAGE_URL), []);
+});
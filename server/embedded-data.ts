@@ -0,0 +1,432 @@
+import type { CheerioAPI } from 'cheerio';
+import { collapseWhitespace, normalizeDateText, parsePrice, resolveUrl, type StructuredEvent } from './structured-data';
+
+/**
+ * Events that JavaScript calendars ship inside the page's scripts: `__NEXT_DATA__` and
+ * other JSON script tags, `window.__INITIAL_STATE__ = {...}` style globals, inline
+ * `var events = [...]` and FullCalendar `events: [...]` options. Script bodies are
+ * read as data literals and never executed.
+ */
+
+// Largest literal we'll read, and how many per page, so a huge bundle can't stall a sync
+const MAX_LITERAL_LENGTH = 2_000_000;
+const MAX_PAYLOADS_PER_PAGE = 50;
+
+// Where a data literal starts: `name = {`, `name = [`, `name = JSON.parse(`, `events: [`
+const ASSIGNMENT_PATTERN = /(?:^|[^\w$.])(?:window\.|self\.|globalThis\.)?[A-Za-z_$][\w$]*\s*=\s*(?=[{[]|JSON\.parse\s*\()/g;
+const EVENTS_OPTION_PATTERN = /\b(?:events|eventSources)\s*:\s*(?=\[)/g;
+
+const TITLE_KEYS = ['title', 'name', 'summary', 'eventName', 'event_name', 'eventTitle'];
+const START_KEYS = ['start', 'startDate', 'start_date', 'startDateTime', 'start_datetime', 'startsAt', 'starts_at', 'dtstart', 'eventDate', 'event_date', 'begin', 'startTime', 'start_time'];
+const END_KEYS = ['end', 'endDate', 'end_date', 'endDateTime', 'end_datetime', 'endsAt', 'ends_at', 'dtend', 'endTime', 'end_time'];
+const TIME_KEYS = ['time', 'startTime', 'start_time'];
+// A bare `date` also marks blog posts and news items, so it only counts alongside other event hints
+const EVENT_HINT_KEYS = ['end', 'endDate', 'end_date', 'allDay', 'all_day', 'location', 'venue', 'dtend'];
+const EVENT_CONTAINER_PATTERN = /event|calendar|occurrence|session|meeting|program|class/i;
+
+type DataNode = Record<string, any>;
+
+export function extractEmbeddedScriptEvents($: CheerioAPI, pageUrl: string): StructuredEvent[] {
+  const payloads: unknown[] = [];
+
+  $('script:not([src])').each((_, element) => {
+    if (payloads.length >= MAX_PAYLOADS_PER_PAGE) return;
+    const $script = $(element);
+    const type = ($script.attr('type') || '').toLowerCase();
+    const body = $script.contents().text();
+    if (!body.trim() || type === 'application/ld+json') return;
+
+    // __NEXT_DATA__, Nuxt/Gatsby payloads and other JSON islands
+    if (type.includes('json')) {
+      try {
+        payloads.push(JSON.parse(body));
+      } catch {
+        // Not JSON after all; nothing to read
+      }
+      return;
+    }
+    if (type && !type.includes('javascript') && type !== 'module') return;
+
+    for (const pattern of [ASSIGNMENT_PATTERN, EVENTS_OPTION_PATTERN]) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(body)) && payloads.length < MAX_PAYLOADS_PER_PAGE) {
+        const literal = readLiteral(body, match.index + match[0].length);
+        if (!literal) continue;
+        payloads.push(literal.value);
+        // Skip past the literal so nested assignments aren't read twice
+        pattern.lastIndex = literal.end;
+      }
+    }
+  });
+
+  const events: StructuredEvent[] = [];
+  const seen = new Set<string>();
+  for (const payload of payloads) {
+    for (const event of findEvents(payload, pageUrl)) {
+      const key = `${event.name}|${event.startDate}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      events.push(event);
+    }
+  }
+  return events;
+}
+
+/**
+ * Walk a payload for arrays of event-shaped objects
+ */
+function findEvents(payload: unknown, pageUrl: string): StructuredEvent[] {
+  const events: StructuredEvent[] = [];
+  let visited = 0;
+
+  const walk = (value: unknown, key: string, depth: number) => {
+    if (!value || typeof value !== 'object' || depth > 12 || ++visited > 50_000) return;
+
+    if (Array.isArray(value)) {
+      const inEventContainer = EVENT_CONTAINER_PATTERN.test(key);
+      for (const item of value) {
+        const event = item && typeof item === 'object' && !Array.isArray(item) ? toEvent(item as DataNode, inEventContainer, pageUrl) : null;
+        if (event) {
+          events.push(event);
+        } else {
+          walk(item, key, depth + 1);
+        }
+      }
+      return;
+    }
+
+    for (const [childKey, child] of Object.entries(value as DataNode)) {
+      walk(child, childKey, depth + 1);
+    }
+  };
+
+  walk(payload, '', 0);
+  return events;
+}
+
+function toEvent(node: DataNode, inEventContainer: boolean, pageUrl: string): StructuredEvent | null {
+  const name = textField(node, TITLE_KEYS);
+  if (!name) return null;
+
+  const startKeys = inEventContainer || EVENT_HINT_KEYS.some(key => node[key] !== undefined) ? [...START_KEYS, 'date'] : START_KEYS;
+  let startKey: string | undefined;
+  let startDate: string | null = null;
+  for (const key of startKeys) {
+    const value = toIsoDate(node[key]);
+    // Skip time-only fields such as startTime: "7:00 PM"; they're combined with the date below
+    if (value && !value.startsWith('T')) {
+      startKey = key;
+      startDate = value;
+      break;
+    }
+  }
+  if (!startKey || !startDate) return null;
+
+  // Date and time split across fields: { date: "2026-11-05", time: "7:00 PM" }
+  if (!startDate.includes('T')) {
+    const timeKey = TIME_KEYS.find(key => key !== startKey && typeof node[key] === 'string');
+    const time = timeKey ? toIsoDate(node[timeKey]) : null;
+    if (time?.startsWith('T')) startDate += time;
+  }
+
+  const allDay = node.allDay === true || node.all_day === true || node.allDay === 'true' || node.all_day === '1';
+  if (allDay) startDate = startDate.slice(0, 10);
+
+  const endKey = END_KEYS.find(key => node[key] !== undefined && node[key] !== null && key !== startKey);
+  let endDate = endKey ? toIsoDate(node[endKey]) : null;
+  if (endDate?.startsWith('T')) {
+    endDate = startDate.slice(0, 10) + endDate;
+  } else if (endDate && endKey === 'end' && !endDate.includes('T')) {
+    // FullCalendar's all-day `end` is exclusive; our date-only ends are inclusive
+    const inclusive = new Date(`${endDate}T00:00:00Z`);
+    inclusive.setUTCDate(inclusive.getUTCDate() - 1);
+    endDate = inclusive.toISOString().slice(0, 10);
+  }
+  if (allDay && endDate) endDate = endDate.slice(0, 10);
+
+  const props: DataNode = node.extendedProps && typeof node.extendedProps === 'object' ? node.extendedProps : {};
+  const venue = node.venue ?? node.location ?? node.place ?? props.location ?? props.venue;
+
+  return {
+    id: textField(node, ['id', 'uid', 'eventId', 'event_id']),
+    name,
+    description: textField(node, ['description', 'details', 'excerpt']) ?? textField(props, ['description', 'details']),
+    startDate,
+    endDate: endDate && endDate >= startDate ? endDate : null,
+    locationName: typeof venue === 'string' ? collapseWhitespace(venue) : textField(venue ?? {}, ['name', 'title', 'venue']),
+    address: venue && typeof venue === 'object' ? addressOf(venue) : null,
+    price: parsePrice(node.price ?? node.cost ?? props.price ?? props.cost),
+    maxPrice: null,
+    imageUrl: resolveUrl(imageOf(node.image ?? node.imageUrl ?? node.image_url ?? node.thumbnail ?? props.image), pageUrl),
+    url: resolveUrl(textField(node, ['url', 'link', 'permalink', 'href']) ?? textField(props, ['url', 'link']), pageUrl)
+  };
+}
+
+/**
+ * Normalise a date value from a payload: ISO or written-out strings, epoch seconds or
+ * milliseconds, or `{ dateTime }` / `{ date }` objects as Google Calendar's API emits
+ */
+function toIsoDate(value: unknown): string | null {
+  if (typeof value === 'number' && isFinite(value)) {
+    const milliseconds = value > 1e11 ? value : value * 1000;
+    return new Date(milliseconds).toISOString();
+  }
+  if (typeof value === 'string') {
+    if (/^\d{10}(\d{3})?$/.test(value.trim())) return toIsoDate(Number(value));
+    return normalizeDateText(value.trim());
+  }
+  if (value && typeof value === 'object') {
+    const node = value as DataNode;
+    return toIsoDate(node.dateTime ?? node.date_time ?? node.date);
+  }
+  return null;
+}
+
+function textField(node: DataNode, keys: string[]): string | null {
+  for (const key of keys) {
+    let value = node[key];
+    // WordPress REST responses wrap strings as { rendered }
+    if (value && typeof value === 'object' && typeof value.rendered === 'string') value = value.rendered;
+    if (typeof value === 'number') value = String(value);
+    if (typeof value === 'string' && value.trim()) return collapseWhitespace(value);
+  }
+  return null;
+}
+
+function addressOf(venue: DataNode): string | null {
+  if (typeof venue.address === 'string') return collapseWhitespace(venue.address);
+  const source: DataNode = venue.address && typeof venue.address === 'object' ? venue.address : venue;
+  const parts = [
+    textField(source, ['street', 'streetAddress', 'address1', 'line1']),
+    textField(source, ['city', 'locality', 'addressLocality']),
+    [textField(source, ['state', 'region', 'addressRegion']), textField(source, ['zip', 'postalCode', 'postal_code'])].filter(Boolean).join(' ')
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function imageOf(image: unknown): string | null {
+  if (typeof image === 'string') return image;
+  if (Array.isArray(image)) return imageOf(image[0]);
+  if (image && typeof image === 'object') return textField(image as DataNode, ['url', 'src']);
+  return null;
+}
+
+/**
+ * Read a JavaScript data literal (object, array, string, number, keyword) starting
+ * at `start`. Handles unquoted and single-quoted keys, trailing commas, comments,
+ * `new Date(...)` and `JSON.parse("...")`; anything else that would need evaluating
+ * (functions, variables, calls) is read as undefined and dropped.
+ */
+function readLiteral(source: string, start: number): { value: unknown; end: number } | null {
+  let position = start;
+  const limit = Math.min(source.length, start + MAX_LITERAL_LENGTH);
+
+  const fail = (): never => {
+    throw new SyntaxError(`Unreadable literal at ${position}`);
+  };
+
+  const skipSpace = () => {
+    while (position < limit) {
+      const char = source[position];
+      if (/\s/.test(char)) {
+        position++;
+      } else if (source.startsWith('//', position)) {
+        const newline = source.indexOf('\n', position);
+        position = newline === -1 ? limit : newline + 1;
+      } else if (source.startsWith('/*', position)) {
+        const close = source.indexOf('*/', position + 2);
+        position = close === -1 ? limit : close + 2;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readString = (): string => {
+    const quote = source[position++];
+    let result = '';
+    while (position < limit && source[position] !== quote) {
+      const char = source[position++];
+      if (char !== '\\') {
+        if (quote === '`' && char === '$' && source[position] === '{') fail();
+        result += char;
+        continue;
+      }
+      const escaped = source[position++];
+      const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' };
+      if (escaped === 'u') {
+        const braced = source[position] === '{';
+        const hex = braced ? source.slice(position + 1, source.indexOf('}', position)) : source.slice(position, position + 4);
+        result += String.fromCodePoint(parseInt(hex, 16));
+        position += braced ? hex.length + 2 : 4;
+      } else if (escaped === 'x') {
+        result += String.fromCharCode(parseInt(source.slice(position, position + 2), 16));
+        position += 2;
+      } else if (escaped === '\n') {
+        // Line continuation
+      } else {
+        result += simple[escaped] ?? escaped;
+      }
+    }
+    if (source[position] !== quote) fail();
+    position++;
+    return result;
+  };
+
+  // Step over an expression we won't evaluate, up to the next separator at this depth
+  const skipExpression = () => {
+    let depth = 0;
+    while (position < limit) {
+      const char = source[position];
+      if (char === '"' || char === "'" || char === '`') {
+        readString();
+        continue;
+      }
+      if ('{[('.includes(char)) depth++;
+      if ('}])'.includes(char)) {
+        if (depth === 0) return;
+        depth--;
+      }
+      if (char === ',' && depth === 0) return;
+      if (char === ';' && depth === 0) return;
+      position++;
+    }
+  };
+
+  const readValue = (): unknown => {
+    skipSpace();
+    const char = source[position];
+
+    if (char === '{') return readObject();
+    if (char === '[') return readArray();
+    if (char === '"' || char === "'" || char === '`') return readString();
+
+    const number = source.slice(position, position + 40).match(/^-?(?:0x[\da-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+)/i);
+    if (number) {
+      position += number[0].length;
+      return Number(number[0]);
+    }
+
+    const word = source.slice(position, position + 20).match(/^[A-Za-z_$][\w$]*/)?.[0];
+    const keywords: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined, NaN: null, Infinity: null };
+    if (word && word in keywords && !/[\w$.(]/.test(source[position + word.length] ?? '')) {
+      position += word.length;
+      return keywords[word];
+    }
+
+    if (source.startsWith('!0', position) || source.startsWith('!1', position)) {
+      position += 2;
+      return source[position - 1] === '0';
+    }
+
+    const call = source.slice(position, position + 40).match(/^(new\s+Date|JSON\.parse)\s*\(/);
+    if (call) {
+      position += call[0].length;
+      const args: unknown[] = [];
+      skipSpace();
+      while (position < limit && source[position] !== ')') {
+        const argumentStart = position;
+        args.push(readValue());
+        skipSpace();
+        if (source[position] === ',') position++;
+        skipSpace();
+        // A stray "}" or "]" inside the call stops skipExpression without consuming anything
+        if (position === argumentStart) fail();
+      }
+      position++;
+      if (call[1] === 'JSON.parse') {
+        return typeof args[0] === 'string' ? JSON.parse(args[0]) : undefined;
+      }
+      return dateFromArgs(args);
+    }
+
+    skipExpression();
+    return undefined;
+  };
+
+  const readObject = (): DataNode => {
+    position++;
+    const result: DataNode = {};
+    for (;;) {
+      skipSpace();
+      if (source[position] === '}') {
+        position++;
+        return result;
+      }
+      if (position >= limit) fail();
+
+      let key: string | null = null;
+      const char = source[position];
+      if (char === '"' || char === "'") {
+        key = readString();
+      } else {
+        const word = source.slice(position).match(/^[\w$]+/)?.[0];
+        if (word) {
+          key = word;
+          position += word.length;
+        }
+      }
+
+      skipSpace();
+      if (key !== null && source[position] === ':') {
+        position++;
+        const value = readValue();
+        if (value !== undefined) result[key] = value;
+      } else {
+        // Shorthand properties, spreads, computed keys and methods need evaluating
+        skipExpression();
+      }
+
+      skipSpace();
+      if (source[position] === ',') {
+        position++;
+      } else if (source[position] !== '}') {
+        fail();
+      }
+    }
+  };
+
+  const readArray = (): unknown[] => {
+    position++;
+    const result: unknown[] = [];
+    for (;;) {
+      skipSpace();
+      if (source[position] === ']') {
+        position++;
+        return result;
+      }
+      if (position >= limit) fail();
+
+      const value = readValue();
+      if (value !== undefined) result.push(value);
+
+      skipSpace();
+      if (source[position] === ',') {
+        position++;
+      } else if (source[position] !== ']') {
+        fail();
+      }
+    }
+  };
+
+  try {
+    const value = readValue();
+    return value === undefined ? null : { value, end: position };
+  } catch {
+    return null;
+  }
+}
+
+// new Date("2026-11-05T18:00") or new Date(2026, 10, 5, 18, 0) - month is zero-based
+function dateFromArgs(args: unknown[]): string | undefined {
+  if (typeof args[0] === 'string' || (args.length === 1 && typeof args[0] === 'number')) {
+    return toIsoDate(args[0]) ?? undefined;
+  }
+  if (!args.every(arg => typeof arg === 'number') || args.length < 3) return undefined;
+
+  const [year, month, day, hour, minute] = args as number[];
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${year}-${pad(month + 1)}-${pad(day)}`;
+  return hour === undefined ? date : `${date}T${pad(hour)}:${pad(minute ?? 0)}:00`;
+}
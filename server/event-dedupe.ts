@@ -0,0 +1,160 @@
+import type { Event } from '@shared/schema';
+
+/**
+ * Finds the same event listed by several sources - the parade on the city, parks and
+ * chamber calendars, each titled a little differently. Pairs are scored on normalized
+ * title similarity, start time proximity and location overlap, then grouped so each
+ * group holds at most one listing per source.
+ */
+
+export interface DuplicateScore {
+  title: number;
+  time: number;
+  location: number;
+  total: number;
+}
+
+// Title words that differ between publishers without changing the event
+const TITLE_STOPWORDS = new Set(['the', 'a', 'an', 'of', 'and', 'at', 'in', 'on', 'for', 'with', 'to', 'annual', 'city', 'town', 'village', 'event']);
+
+const LOCATION_STOPWORDS = new Set(['the', 'of', 'and', 'at', 'in', 'on', 'st', 'street', 'ave', 'avenue', 'rd', 'road', 'dr', 'drive', 'blvd']);
+
+const HOUR = 60 * 60 * 1000;
+
+// Timed listings further apart than this are different events
+const MAX_START_GAP = 2 * HOUR;
+
+// Start times compared when grouping; wide enough for an all-day listing and a timed one
+const COMPARE_WINDOW = 26 * HOUR;
+
+const MIN_TITLE_SCORE = 0.6;
+const MIN_TOTAL_SCORE = 0.75;
+
+export function titleTokens(title: string): string[] {
+  return title
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !TITLE_STOPWORDS.has(token) && !/^\d{4}$/.test(token) && !/^\d+(?:st|nd|rd|th)$/.test(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+/**
+ * Token overlap between two titles (Dice coefficient), with "Holiday Parade" counting
+ * as nearly the same as "Downtown Holiday Parade"
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const tokensA = Array.from(new Set(titleTokens(a)));
+  const tokensB = Array.from(new Set(titleTokens(b)));
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const shared = tokensA.filter(token => tokensB.some(other => sameWord(token, other))).length;
+  const dice = (2 * shared) / (tokensA.length + tokensB.length);
+  const smaller = Math.min(tokensA.length, tokensB.length);
+  if (smaller >= 2 && shared === smaller) return Math.max(dice, 0.9);
+  return dice;
+}
+
+// "Fest" and "Festival", "Lighting" and "Lightings" - a shared stem of five letters
+function sameWord(a: string, b: string): boolean {
+  if (a === b) return true;
+  const shorter = a.length <= b.length ? a : b;
+  const longer = shorter === a ? b : a;
+  return shorter.length >= 5 && longer.startsWith(shorter);
+}
+
+function timeScore(a: Event, b: Event): number {
+  const startA = new Date(a.startDate).getTime();
+  const startB = new Date(b.startDate).getTime();
+
+  if (a.allDay && b.allDay) {
+    if (startA === startB) return 1;
+    return startA < new Date(b.endDate).getTime() && startB < new Date(a.endDate).getTime() ? 0.5 : 0;
+  }
+  if (a.allDay || b.allDay) {
+    // A timed listing on a day the all-day listing covers
+    const [allDay, timed] = a.allDay ? [a, b] : [b, a];
+    const start = new Date(timed.startDate).getTime();
+    return start >= new Date(allDay.startDate).getTime() && start < new Date(allDay.endDate).getTime() ? 0.6 : 0;
+  }
+
+  const gap = Math.abs(startA - startB);
+  return gap > MAX_START_GAP ? 0 : 1 - (gap / MAX_START_GAP) * 0.5;
+}
+
+function locationTokens(location: string): Set<string> {
+  return new Set(
+    location
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 1 && !LOCATION_STOPWORDS.has(token))
+  );
+}
+
+// Sources name the same place differently, so a missing location is neutral
+function locationScore(a: string, b: string): number {
+  const tokensA = locationTokens(a);
+  const tokensB = locationTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0.5;
+
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  return shared / Math.min(tokensA.size, tokensB.size);
+}
+
+export function duplicateScore(a: Event, b: Event): DuplicateScore {
+  const title = titleSimilarity(a.title, b.title);
+  const time = timeScore(a, b);
+  const location = locationScore(a.location, b.location);
+  return { title, time, location, total: 0.6 * title + 0.2 * time + 0.2 * location };
+}
+
+// The pair's total score when the two are listings of one event, otherwise null
+function matchScore(a: Event, b: Event): number | null {
+  if (a.source === b.source || a.id === b.id || isSeparated(a, b)) return null;
+
+  const score = duplicateScore(a, b);
+  return score.time > 0 && score.title >= MIN_TITLE_SCORE && score.total >= MIN_TOTAL_SCORE ? score.total : null;
+}
+
+function isSeparated(a: Event, b: Event): boolean {
+  return !!(a.distinctFrom?.includes(b.id) || b.distinctFrom?.includes(a.id));
+}
+
+/**
+ * Groups of two or more listings of the same event. The closest pairs are joined
+ * first; a group never takes a second listing from one source, or a listing an
+ * un-merge separated from one of its members.
+ */
+export function findDuplicateGroups(events: Event[]): Event[][] {
+  const sorted = [...events].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  const pairs: Array<{ a: Event; b: Event; score: number }> = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = new Date(sorted[i].startDate).getTime();
+    for (let j = i + 1; j < sorted.length; j++) {
+      if (new Date(sorted[j].startDate).getTime() - start > COMPARE_WINDOW) break;
+      const score = matchScore(sorted[i], sorted[j]);
+      if (score !== null) pairs.push({ a: sorted[i], b: sorted[j], score });
+    }
+  }
+
+  const groupOf = new Map<string, Event[]>(sorted.map(event => [event.id, [event]]));
+
+  pairs.sort((x, y) => y.score - x.score);
+  for (const { a, b } of pairs) {
+    const groupA = groupOf.get(a.id)!;
+    const groupB = groupOf.get(b.id)!;
+    if (groupA === groupB) continue;
+    if (groupA.some(event => groupB.some(other => other.source === event.source))) continue;
+    if (groupA.some(event => groupB.some(other => isSeparated(event, other)))) continue;
+
+    groupA.push(...groupB);
+    for (const event of groupB) groupOf.set(event.id, groupA);
+  }
+
+  return Array.from(new Set(Array.from(groupOf.values()))).filter(group => group.length > 1);
+}
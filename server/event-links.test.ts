@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractDescriptionLinks, linkColumns } from './event-links';
+
+const PAGE_URL = 'https://example.org/events';
+
+test('fills a missing registration link from the description', () => {
+  const links = extractDescriptionLinks('<p><a href="/signup">Register here</a></p>', PAGE_URL);
+  const columns = linkColumns(links, { url: 'https://example.org/events/1', registration: { required: true, url: null, status: 'open' } });
+  assert.equal(columns.url, 'https://example.org/events/1');
+  assert.deepEqual(columns.registration, { required: true, url: 'https://example.org/signup', status: 'open' });
+});
+
+test('drops feed and platform links that are not http(s)', () => {
+  const columns = linkColumns(extractDescriptionLinks(null, PAGE_URL), {
+    url: 'javascript:alert(1)',
+    registration: { required: false, url: 'data:text/html,<script>alert(1)</script>', status: null }
+  });
+  assert.equal(columns.url, null);
+  assert.deepEqual(columns.registration, { required: false, url: null, status: null });
+});
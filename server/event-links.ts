@@ -0,0 +1,159 @@
+import * as cheerio from 'cheerio';
+import type { EventAttachment, InsertEvent, Registration } from '@shared/schema';
+import { collapseWhitespace, resolveUrl } from './structured-data';
+
+/**
+ * Links an event carries besides its own page: where to register or buy tickets, and
+ * documents such as agendas and flyers. Read from iCal ATTACH properties and from the
+ * anchors and bare URLs in a description, so a feed that only says "Register at
+ * https://..." still gets a Register button.
+ */
+
+export interface DescriptionLinks {
+  registrationUrl: string | null;
+  registrationRequired: boolean;
+  attachments: EventAttachment[];
+}
+
+// Anchor text that offers a place to sign up
+const REGISTRATION_TEXT = /\b(?:regist(?:er|ration)|sign[\s-]?up|rsvp|tickets?|enroll|reserve (?:a |your )?(?:spot|seat)|book now)\b/i;
+
+// Ticketing and sign-up services, whatever the link says
+const REGISTRATION_HOSTS = /(?:^|\.)(?:eventbrite\.\w+|signupgenius\.com|ticketleap\.com|brownpapertickets\.com|universe\.com|zeffy\.com|givebutter\.com|ticketmaster\.com|forms\.gle|activecommunities\.com|recdesk\.com|rec1\.com)$/i;
+
+// "Register at https://..." - a bare URL right after an offer to sign up
+const REGISTRATION_LEAD = /\b(?:regist(?:er|ration)|sign[\s-]?up|rsvp|tickets?|enroll)\b[^.\n]{0,40}$/i;
+
+const REQUIRED_PATTERN = /\b(?:(?:pre-?)?registration (?:is )?required|registration (?:is )?(?:needed|necessary)|must (?:pre-?)?register|rsvp (?:is )?required|tickets? required)\b/i;
+
+const DOCUMENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const BARE_URL_PATTERN = /https?:\/\/[^\s<>"'()[\]]+/gi;
+
+/**
+ * Registration links and linked documents in a description, plain text or HTML.
+ * Relative links resolve against the page the description came from.
+ */
+export function extractDescriptionLinks(description: string | null | undefined, baseUrl: string | null): DescriptionLinks {
+  const links: DescriptionLinks = { registrationUrl: null, registrationRequired: false, attachments: [] };
+  if (!description) return links;
+
+  const $ = cheerio.load(description, null, false);
+  const text = /<[a-z]/i.test(description) ? $.root().text() : description;
+  links.registrationRequired = REQUIRED_PATTERN.test(text);
+
+  $('a[href]').each((_, element) => {
+    const $anchor = $(element);
+    const url = absoluteUrl($anchor.attr('href') ?? null, baseUrl);
+    if (url) addLink(links, url, collapseWhitespace($anchor.text()), null);
+  });
+
+  for (const match of Array.from(text.matchAll(BARE_URL_PATTERN))) {
+    const url = absoluteUrl(match[0].replace(/[.,;:!?]+$/, ''), baseUrl);
+    if (url) addLink(links, url, null, text.slice(Math.max(0, match.index! - 60), match.index));
+  }
+
+  return links;
+}
+
+/**
+ * iCal ATTACH values as node-ical gives them: a URI, a { params, val } object carrying
+ * FMTTYPE and FILENAME, or a list of either. Inline (base64) attachments are skipped.
+ */
+export function icalAttachments(value: unknown, baseUrl: string | null): EventAttachment[] {
+  const values = Array.isArray(value) ? value : value == null ? [] : [value];
+  const attachments: EventAttachment[] = [];
+
+  for (const entry of values) {
+    const raw = typeof entry === 'string' ? entry : entry?.val;
+    const params = typeof entry === 'object' && entry?.params ? entry.params : {};
+    if (typeof raw !== 'string' || params.ENCODING || params.VALUE === 'BINARY') continue;
+
+    const url = absoluteUrl(raw.trim(), baseUrl);
+    if (!url || attachments.some(attachment => attachment.url === url)) continue;
+    attachments.push({
+      url,
+      title: typeof params.FILENAME === 'string' && params.FILENAME ? params.FILENAME : fileTitle(url),
+      mimeType: typeof params.FMTTYPE === 'string' ? params.FMTTYPE : documentType(url)
+    });
+  }
+  return attachments;
+}
+
+/**
+ * The link columns for an event: its page, the registration the source gave (with a
+ * link from the description filling in a missing URL), and its attachments
+ */
+export function linkColumns(
+  links: DescriptionLinks,
+  known: { url?: string | null; registration?: Registration | null; attachments?: EventAttachment[] }
+): Pick<InsertEvent, 'url' | 'registration' | 'attachments'> {
+  const url = webUrl(known.url);
+
+  let registration = known.registration ? { ...known.registration, url: webUrl(known.registration.url) } : null;
+  if (registration && !registration.url && links.registrationUrl) {
+    registration = { ...registration, url: links.registrationUrl };
+  } else if (!registration && links.registrationUrl && links.registrationUrl !== url) {
+    registration = { required: links.registrationRequired, url: links.registrationUrl, status: null };
+  }
+
+  const attachments = [...(known.attachments ?? [])];
+  for (const attachment of links.attachments) {
+    if (!attachments.some(existing => existing.url === attachment.url)) attachments.push(attachment);
+  }
+
+  return { url, registration, attachments: attachments.length > 0 ? attachments : null };
+}
+
+/**
+ * A link from a feed or platform field, kept only when it is an absolute http(s) URL so
+ * a javascript: or data: value never reaches an href
+ */
+export function webUrl(url: string | null | undefined): string | null {
+  return absoluteUrl(url?.trim() || null, null);
+}
+
+function addLink(links: DescriptionLinks, url: string, label: string | null, leadingText: string | null): void {
+  const mimeType = documentType(url);
+  if (mimeType) {
+    if (!links.attachments.some(attachment => attachment.url === url)) {
+      links.attachments.push({ url, title: label && !/^https?:\/\//i.test(label) ? label : fileTitle(url), mimeType });
+    }
+    return;
+  }
+
+  if (links.registrationUrl) return;
+  const host = new URL(url).hostname;
+  if ((label && REGISTRATION_TEXT.test(label)) || REGISTRATION_HOSTS.test(host) || (leadingText && REGISTRATION_LEAD.test(leadingText))) {
+    links.registrationUrl = url;
+  }
+}
+
+// Web links only, so mailto: and javascript: hrefs never become buttons
+function absoluteUrl(href: string | null, baseUrl: string | null): string | null {
+  const url = resolveUrl(href, baseUrl ?? 'about:blank');
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
+
+function documentType(url: string): string | null {
+  const extension = new URL(url).pathname.match(/\.(\w+)$/)?.[1]?.toLowerCase();
+  return extension ? DOCUMENT_TYPES[extension] ?? null : null;
+}
+
+// "Board%20Agenda%202026-11.pdf" -> "Board Agenda 2026-11.pdf"
+function fileTitle(url: string): string {
+  const name = new URL(url).pathname.split('/').filter(Boolean).pop() ?? '';
+  try {
+    return decodeURIComponent(name).replace(/[_+]/g, ' ') || 'Attachment';
+  } catch {
+    return name || 'Attachment';
+  }
+}
@@ -0,0 +1,100 @@
+import type { InsertEvent } from '@shared/schema';
+import type { CalendarSource } from './calendar-collector';
+
+/**
+ * A fetched feed body, with what we need to sniff its real format
+ */
+export interface FeedResponse {
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+  // Undecoded body, for binary formats such as PDF
+  bytes: Buffer;
+}
+
+/**
+ * Turns one kind of feed into events. Parsers are picked by what the response
+ * actually contains, so a source's declared feedType is only a hint.
+ */
+export interface FeedParser {
+  // Matches CalendarSource.feedType for parsers of a declared feed type
+  name: string;
+  canParse(response: FeedResponse): boolean;
+  parse(response: FeedResponse, source: CalendarSource): Promise<InsertEvent[]>;
+}
+
+/**
+ * Ordered set of feed parsers. The first parser that recognises a response wins,
+ * except that the parser named after the source's declared feedType gets first look.
+ */
+export class FeedParserRegistry {
+  private parsers: FeedParser[] = [];
+
+  /**
+   * Add a parser, at the end or ahead of a named parser - specific formats (say, a
+   * vendor's JSON API) need to sit before the generic parser for their content type
+   */
+  register(parser: FeedParser, options: { before?: string } = {}): void {
+    this.parsers = this.parsers.filter(existing => existing.name !== parser.name);
+
+    const index = options.before ? this.parsers.findIndex(existing => existing.name === options.before) : -1;
+    if (index === -1) {
+      this.parsers.push(parser);
+    } else {
+      this.parsers.splice(index, 0, parser);
+    }
+  }
+
+  find(response: FeedResponse, preferred?: string): FeedParser | undefined {
+    const preferredParser = this.parsers.find(parser => parser.name === preferred);
+    if (preferredParser?.canParse(response)) {
+      return preferredParser;
+    }
+    return this.parsers.find(parser => parser.canParse(response));
+  }
+
+  names(): string[] {
+    return this.parsers.map(parser => parser.name);
+  }
+}
+
+// How much of the body to look at when sniffing - enough to get past XML declarations, BOMs and comments
+const SNIFF_LENGTH = 2048;
+
+function head(response: FeedResponse): string {
+  return response.body.slice(0, SNIFF_LENGTH).replace(/^\uFEFF/, '').trimStart();
+}
+
+export function looksLikePdf(response: FeedResponse): boolean {
+  return response.bytes.subarray(0, 1024).includes('%PDF-');
+}
+
+// Judged on the body alone: servers label .ics files as text/plain or octet-stream, and error pages as text/calendar
+export function looksLikeICalendar(response: FeedResponse): boolean {
+  return /^BEGIN:VCALENDAR/i.test(head(response)) || response.body.includes('BEGIN:VEVENT');
+}
+
+export function looksLikeXmlFeed(response: FeedResponse): boolean {
+  const start = head(response);
+  return /<(rss|feed|rdf:RDF)[\s>]/i.test(start) && !/<html[\s>]/i.test(start);
+}
+
+export function looksLikeJson(response: FeedResponse): boolean {
+  const start = head(response);
+  if (!response.contentType.includes('json') && !/^[{[]/.test(start)) {
+    return false;
+  }
+  try {
+    JSON.parse(response.body);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function looksLikeHtml(response: FeedResponse): boolean {
+  return response.contentType.includes('text/html') ||
+    response.contentType.includes('application/xhtml') ||
+    /<(!doctype html|html|body)[\s>]/i.test(head(response));
+}
@@ -0,0 +1,97 @@
+import type { CheerioAPI } from 'cheerio';
+import { resolveUrl } from './structured-data';
+
+/**
+ * Public Google Calendars embedded on small-town and chamber sites. The embed iframe
+ * (`calendar.google.com/calendar/embed?src=...`) names each calendar it shows, along
+ * with the color it's drawn in, the embed's title and its display timezone; every
+ * public calendar also serves an iCal feed at `/calendar/ical/<id>/public/basic.ics`.
+ */
+
+export interface GoogleCalendarEmbed {
+  calendarId: string; // e.g. "abc123@group.calendar.google.com" or "townhall@gmail.com"
+  icalUrl: string;
+  color: string | null; // "#rrggbb", as the embed draws the calendar
+  title: string | null; // the embed's title, shared by every calendar in it
+  timezone: string | null; // the embed's ctz
+}
+
+const GOOGLE_CALENDAR_HOSTS = new Set(['calendar.google.com', 'www.google.com', 'google.com']);
+
+export function googleCalendarIcalUrl(calendarId: string): string {
+  return `https://calendar.google.com/calendar/ical/${encodeURIComponent(calendarId)}/public/basic.ics`;
+}
+
+/**
+ * The calendars in a Google Calendar embed or "add to Google Calendar" link. An embed
+ * can show several calendars, with the n-th `color` belonging to the n-th `src`.
+ * Google's own holiday calendars, often shown alongside a town's, are left out.
+ */
+export function parseGoogleCalendarEmbed(url: string): GoogleCalendarEmbed[] {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.replace(/&amp;/g, '&').replace(/^\/\//, 'https://'));
+  } catch {
+    return [];
+  }
+  if (!GOOGLE_CALENDAR_HOSTS.has(parsed.hostname.toLowerCase()) || !parsed.pathname.startsWith('/calendar')) return [];
+
+  const title = parsed.searchParams.get('title')?.trim() || null;
+  const timezone = parsed.searchParams.get('ctz') || null;
+  const calendars: GoogleCalendarEmbed[] = [];
+  const add = (calendarId: string | null, color: string | null = null) => {
+    const id = calendarId?.trim();
+    if (!id || !/^[\w.+%-]+@[\w.-]+\.\w+$/.test(id) || /@group\.v\.calendar\.google\.com$/i.test(id)) return;
+    if (calendars.some(calendar => calendar.calendarId.toLowerCase() === id.toLowerCase())) return;
+    calendars.push({ calendarId: id, icalUrl: googleCalendarIcalUrl(id), color: color ? normalizeColor(color) : null, title, timezone });
+  };
+
+  // A published feed link already names the calendar in its path
+  const icalPath = parsed.pathname.match(/^\/calendar\/ical\/([^/]+)\/public\//);
+  if (icalPath) add(decodeURIComponent(icalPath[1]));
+
+  const colors = parsed.searchParams.getAll('color');
+  parsed.searchParams.getAll('src').forEach((src, index) => add(calendarIdParam(src), colors[index] ?? null));
+  parsed.searchParams.getAll('cid').forEach(cid => add(calendarIdParam(cid)));
+
+  return calendars;
+}
+
+/**
+ * Google Calendars embedded or linked on a page, including lazy-loaded iframes
+ */
+export function findGoogleCalendarEmbeds($: CheerioAPI, pageUrl: string): GoogleCalendarEmbed[] {
+  const found: GoogleCalendarEmbed[] = [];
+
+  $('iframe[src], iframe[data-src], a[href]').each((_, element) => {
+    const $element = $(element);
+    const url = resolveUrl($element.attr('src') || $element.attr('data-src') || $element.attr('href') || null, pageUrl);
+    if (!url || !/google\.com\/calendar/i.test(url)) return;
+
+    for (const calendar of parseGoogleCalendarEmbed(url)) {
+      const existing = found.find(other => other.calendarId.toLowerCase() === calendar.calendarId.toLowerCase());
+      if (!existing) {
+        found.push(calendar);
+      } else {
+        // A plain link may come before the embed that carries the color and title
+        existing.color ??= calendar.color;
+        existing.title ??= calendar.title;
+        existing.timezone ??= calendar.timezone;
+      }
+    }
+  });
+
+  return found;
+}
+
+// Newer embeds and "add to Google Calendar" links carry the id base64-encoded
+function calendarIdParam(value: string): string {
+  if (value.includes('@')) return value;
+  const decoded = Buffer.from(value, 'base64').toString('utf8');
+  return decoded.includes('@') ? decoded : value;
+}
+
+function normalizeColor(value: string): string | null {
+  const hex = value.trim().replace(/^#/, '');
+  return /^[0-9a-f]{6}$/i.test(hex) ? `#${hex.toLowerCase()}` : null;
+}
@@ -0,0 +1,147 @@
+import type { VEvent } from 'node-ical';
+import { zonedTimeToDate } from './timezones';
+
+type RecurrenceRule = NonNullable<VEvent['rrule']>;
+
+/**
+ * How far ahead recurring iCal events are expanded. Override with
+ * ICAL_RECURRENCE_HORIZON_DAYS to pull a longer or shorter window.
+ */
+export const RECURRENCE_HORIZON_DAYS = Number(process.env.ICAL_RECURRENCE_HORIZON_DAYS) || 120;
+
+/**
+ * A single concrete occurrence of a VEVENT. For recurring events `event` is the
+ * RECURRENCE-ID override when the feed has one for this occurrence, otherwise
+ * the master event.
+ */
+export interface EventOccurrence {
+  event: VEvent;
+  start: Date;
+  end: Date;
+  /** Original start of the occurrence in the series, null for one-off events */
+  recurrenceStart: Date | null;
+}
+
+/**
+ * Expand a VEVENT into the occurrences that fall between `from` and `to`.
+ * Handles RRULE and RDATE, drops EXDATE instances and swaps in RECURRENCE-ID
+ * overrides. Non-recurring events are returned as-is without window filtering.
+ */
+export function expandOccurrences(event: VEvent, from: Date, to: Date): EventOccurrence[] {
+  const start = new Date(event.start);
+  const end = event.end ? new Date(event.end) : new Date(start.getTime() + 60 * 60 * 1000);
+  const rdates = parseRDates((event as any).rdate);
+
+  if (!event.rrule && rdates.length === 0) {
+    return [{ event, start, end, recurrenceStart: null }];
+  }
+
+  const duration = end.getTime() - start.getTime();
+  const seriesStarts = event.rrule ? expandRule(event.rrule, new Date(from.getTime() - duration), to) : [];
+  for (const rdate of rdates) {
+    if (rdate.getTime() + duration >= from.getTime() && rdate <= to) {
+      seriesStarts.push(rdate);
+    }
+  }
+
+  const exdates = event.exdate || {};
+  const overrides = event.recurrences || {};
+  const seen = new Set<number>();
+  const occurrences: EventOccurrence[] = [];
+
+  for (const occurrenceStart of seriesStarts) {
+    if (seen.has(occurrenceStart.getTime())) continue;
+    seen.add(occurrenceStart.getTime());
+
+    // node-ical keys EXDATE and RECURRENCE-ID entries by the UTC calendar date
+    const key = occurrenceStart.toISOString().slice(0, 10);
+    if (exdates[key]) continue;
+
+    const override = overrides[key] as VEvent | undefined;
+    if (override && override.start) {
+      const overrideStart = new Date(override.start);
+      const overrideEnd = override.end ? new Date(override.end) : new Date(overrideStart.getTime() + duration);
+      occurrences.push({ event: override, start: overrideStart, end: overrideEnd, recurrenceStart: occurrenceStart });
+    } else {
+      occurrences.push({
+        event,
+        start: occurrenceStart,
+        end: new Date(occurrenceStart.getTime() + duration),
+        recurrenceStart: occurrenceStart
+      });
+    }
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Run an RRULE between two instants. rrule's own TZID support shifts results by
+ * the host timezone, so zoned rules are expanded on floating wall-clock times
+ * and converted back to real instants afterwards.
+ */
+function expandRule(rule: RecurrenceRule, from: Date, to: Date): Date[] {
+  const tzid = rule.options.tzid;
+  if (!tzid) {
+    return rule.between(from, to, true);
+  }
+
+  try {
+    // Build through the rule's own constructor so we use node-ical's copy of rrule
+    const RuleClass = rule.constructor as new (options: RecurrenceRule['origOptions']) => RecurrenceRule;
+    const floatingRule = new RuleClass({ ...rule.origOptions, tzid: null });
+    // Pad the floating window by a day either side to cover any UTC offset
+    const day = 24 * 60 * 60 * 1000;
+    return floatingRule
+      .between(new Date(from.getTime() - day), new Date(to.getTime() + day), true)
+      .map(wallTime => zonedTimeToDate(wallTime, tzid))
+      .filter(date => date >= from && date <= to);
+  } catch (error) {
+    console.log(`Could not expand RRULE in ${tzid}, falling back to rrule's zone handling:`, error);
+    return rule.between(from, to, true);
+  }
+}
+
+/**
+ * Parse node-ical's raw RDATE property, which may be a string, a
+ * { params, val } pair or a list of either, each holding comma-separated values.
+ */
+function parseRDates(rdate: unknown): Date[] {
+  if (!rdate) return [];
+
+  const entries = Array.isArray(rdate) ? rdate : [rdate];
+  const dates: Date[] = [];
+
+  for (const entry of entries) {
+    const value: string = typeof entry === 'string' ? entry : entry?.val;
+    const tzid: string | undefined = typeof entry === 'string' ? undefined : entry?.params?.TZID;
+    if (typeof value !== 'string') continue;
+
+    for (const raw of value.split(',')) {
+      const match = raw.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+      if (!match) continue;
+
+      const [, year, month, day, hour, minute, second, utc] = match;
+      if (!hour) {
+        // Date-only values are local midnight, matching how node-ical parses DTSTART
+        dates.push(new Date(Number(year), Number(month) - 1, Number(day)));
+        continue;
+      }
+
+      const wallTime = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+      if (utc) {
+        dates.push(wallTime);
+      } else if (tzid) {
+        try {
+          dates.push(zonedTimeToDate(wallTime, tzid.replace(/^"(.*)"$/, '$1')));
+        } catch {
+          dates.push(new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+        }
+      } else {
+        dates.push(new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
+      }
+    }
+  }
+
+  return dates;
+}
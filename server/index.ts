@@ -76,7 +76,7 @@ app.use((req, res, next) => {
     
     // Set up periodic sync every 6 hours (only for already discovered sources)
     setInterval(async () => {
-      const sources = calendarCollector.getSources();
+      const sources = await calendarCollector.getSources();
       if (sources.length > 0) {
         log("Running scheduled event sync for discovered sources...");
         try {
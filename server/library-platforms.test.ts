@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import { classifyAudience } from './audience';
+import { parseCommunicoEvents, parseLibCalEvents, parseLibraryCalendarEvents } from './library-platforms';
+
+// Saved sample responses, so the adapters are checked without reaching the platforms
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/library/${name}`, import.meta.url), 'utf8');
+
+test('LibCal events map branches, audiences and registration', () => {
+  const records = parseLibCalEvents(fixture('libcal-events.json'), 'https://springfieldlibrary.libcal.com/ajax/calendar/list');
+  assert.equal(records.length, 4);
+
+  const [storytime, anime, medicare, closed] = records;
+  assert.deepEqual(
+    [storytime.title, storytime.start, storytime.end, storytime.branch, storytime.room],
+    ['Baby & Me Storytime', '2026-10-21T10:30:00', '2026-10-21T11:00:00', 'Lincoln Branch', "Children's Program Room"]
+  );
+  assert.deepEqual(classifyAudience(storytime.audienceLabels), { audience: ['Babies & Toddlers', 'Families'], ageMin: 0, ageMax: 2 });
+  assert.deepEqual(storytime.registration, { required: true, url: 'https://springfieldlibrary.libcal.com/event/14452301', status: 'full' });
+
+  assert.deepEqual(classifyAudience(anime.audienceLabels), { audience: ['Teens'], ageMin: 12, ageMax: 18 });
+  assert.equal(anime.registration, null);
+  assert.deepEqual(classifyAudience(medicare.audienceLabels), { audience: ['Seniors'], ageMin: 55, ageMax: null });
+  assert.equal(medicare.registration?.status, 'open');
+  assert.deepEqual([closed.start, closed.branch, closed.audienceLabels], ['2026-11-06', null, []]);
+});
+
+test('Communico events map branches, audiences, registration and cancellations', () => {
+  const records = parseCommunicoEvents(fixture('communico-events.json'), 'https://riverton.libnet.info/eeventcaldata');
+  assert.equal(records.length, 3);
+
+  const [lego, resume, movie] = records;
+  assert.deepEqual([lego.start, lego.branch, lego.room, lego.registration], ['2026-10-20T15:30:00', 'Eastside Branch', 'Activity Room', null]);
+  assert.deepEqual(classifyAudience(lego.audienceLabels), { audience: ['Kids'], ageMin: 6, ageMax: 11 });
+
+  assert.equal(resume.title, 'Résumé Workshop: Job Seekers Series');
+  assert.deepEqual(classifyAudience(resume.audienceLabels), { audience: ['Adults'], ageMin: 18, ageMax: null });
+  assert.deepEqual(resume.registration, { required: true, url: 'https://riverton.libnet.info/event/3391840', status: 'waitlist' });
+
+  assert.deepEqual(classifyAudience(movie.audienceLabels), { audience: ['All Ages', 'Families'], ageMin: 0, ageMax: null });
+  assert.equal(movie.cancelled, true);
+});
+
+test('LibraryCalendar listings map branches, audiences, registration and cancellations', () => {
+  const records = parseLibraryCalendarEvents(cheerio.load(fixture('librarycalendar-events.html')), 'https://maplewoodlibrary.org/events/upcoming');
+  assert.equal(records.length, 3);
+
+  const [craft, bookClub, gaming] = records;
+  assert.deepEqual(
+    [craft.start, craft.end, craft.branch, craft.room, craft.url],
+    ['2026-10-21T15:30:00', '2026-10-21T16:30:00', 'Maplewood Main Library', 'Story Room', 'https://maplewoodlibrary.org/event/fall-craft-afternoon-88213']
+  );
+  assert.deepEqual(classifyAudience(craft.audienceLabels), { audience: ['Kids'], ageMin: 5, ageMax: 12 });
+  assert.deepEqual(craft.registration, { required: true, url: 'https://maplewoodlibrary.org/event/fall-craft-afternoon-88213', status: 'open' });
+
+  assert.deepEqual([bookClub.branch, bookClub.room, bookClub.registration], ['North Branch', null, null]);
+  assert.deepEqual(classifyAudience(bookClub.audienceLabels), { audience: ['Adults'], ageMin: 18, ageMax: null });
+
+  assert.deepEqual([gaming.start, gaming.cancelled, gaming.registration?.status], ['2026-10-31', true, 'closed']);
+  assert.deepEqual(classifyAudience(gaming.audienceLabels), { audience: ['Teens'], ageMin: 12, ageMax: 18 });
+});
@@ -0,0 +1,297 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Registration } from '@shared/schema';
+import { looksLikeHtml, looksLikeJson, type FeedResponse } from './feed-parsers';
+import { parseTimeRange } from './scraping-rules';
+import { collapseWhitespace, htmlToText, normalizeDateText, resolveUrl } from './structured-data';
+
+/**
+ * Event platforms public libraries host their programs on: LibCal (Springshare),
+ * Communico and LibraryMarket's LibraryCalendar. Each is read from the listing its own
+ * calendar page loads - LibCal's and Communico's JSON, LibraryCalendar's event list
+ * HTML - since those carry the audience, branch and registration details that the
+ * platforms' RSS and iCal exports leave out.
+ *
+ * Like the meeting adapters these work on response bodies; saved sample responses are
+ * in `server/fixtures/library`.
+ */
+
+export type LibraryPlatform = 'libcal' | 'communico' | 'librarymarket';
+
+export interface LibraryEventRecord {
+  id: string;
+  title: string;
+  description: string;
+  start: string; // YYYY-MM-DDTHH:mm:ss wall-clock (or with an offset when the platform gives one), YYYY-MM-DD when all day
+  end: string | null;
+  branch: string | null;
+  room: string | null;
+  audienceLabels: string[]; // the platform's own audience / age-group names
+  categories: string[];
+  registration: Registration | null;
+  url: string | null;
+  imageUrl: string | null;
+  cancelled: boolean;
+}
+
+export interface LibraryPlatformLink {
+  platform: LibraryPlatform;
+  site: string; // platform host, e.g. "springfieldlibrary.libcal.com"
+  url: string; // canonical calendar page for the source
+}
+
+// Days of events requested from platforms that take a date window
+const LISTING_DAYS = 60;
+
+const PLATFORM_HOSTS: Array<[LibraryPlatform, RegExp, string]> = [
+  ['libcal', /^([\w-]+)\.libcal\.com$/i, '/calendar'],
+  ['communico', /^([\w-]+)\.libnet\.info$/i, '/events'],
+  ['librarymarket', /^([\w-]+)\.librarycalendar\.com$/i, '/events/upcoming']
+];
+
+// Shared hosts on these platforms that aren't a library's calendar
+const NON_SITE_HOSTS = new Set(['www', 'api', 'static', 'cdn', 'help', 'support']);
+
+/**
+ * Recognise a link into a library's LibCal, Communico or LibraryCalendar site
+ */
+export function detectLibraryPlatform(url: string): LibraryPlatformLink | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.startsWith('//') ? `https:${url}` : url);
+  } catch {
+    return null;
+  }
+
+  for (const [platform, pattern, calendarPath] of PLATFORM_HOSTS) {
+    const match = parsed.hostname.match(pattern);
+    if (match && !NON_SITE_HOSTS.has(match[1].toLowerCase())) {
+      const site = parsed.hostname.toLowerCase();
+      return { platform, site, url: `https://${site}${calendarPath}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Library platform calendars linked, framed or loaded as widgets on a page
+ */
+export function findLibraryPlatformLinks($: CheerioAPI, pageUrl: string): LibraryPlatformLink[] {
+  const found = new Map<string, LibraryPlatformLink>();
+
+  $('a[href], iframe[src], script[src]').each((_, element) => {
+    const $element = $(element);
+    const url = resolveUrl($element.attr('href') || $element.attr('src') || null, pageUrl);
+    const link = url ? detectLibraryPlatform(url) : null;
+    if (link && !found.has(link.site)) found.set(link.site, link);
+  });
+
+  return Array.from(found.values());
+}
+
+/**
+ * The listing a platform's calendar page loads its events from, starting at `from`.
+ * Calendar pages on a library's own domain (LibraryCalendar is often white-labelled)
+ * are used as they are.
+ */
+export function libraryEventsUrl(platform: LibraryPlatform, feedUrl: string, from: Date): string {
+  const link = detectLibraryPlatform(feedUrl);
+  if (!link || link.platform !== platform) return feedUrl;
+
+  const day = `${from.getFullYear()}-${String(from.getMonth() + 1).padStart(2, '0')}-${String(from.getDate()).padStart(2, '0')}`;
+  switch (platform) {
+    case 'libcal':
+      // c=-1 lists every public calendar the library has
+      return /\/ajax\/calendar\/list/.test(feedUrl) ? feedUrl : `https://${link.site}/ajax/calendar/list?c=-1&date=${day}&perpage=100&page=1`;
+    case 'communico': {
+      if (/\/eeventcaldata/.test(feedUrl)) return feedUrl;
+      const request = { private: false, date: day, days: LISTING_DAYS, locations: [], ages: [], types: [] };
+      return `https://${link.site}/eeventcaldata?event_type=0&req=${encodeURIComponent(JSON.stringify(request))}`;
+    }
+    case 'librarymarket':
+      return /\/events\//.test(new URL(feedUrl).pathname) ? feedUrl : link.url;
+  }
+}
+
+export function looksLikeLibCalEvents(response: FeedResponse): boolean {
+  return looksLikeJson(response) && /"(?:results|events)"\s*:\s*\[/.test(response.body.slice(0, 512)) && /"(?:startdt|campus|audiences?)"\s*:/.test(response.body);
+}
+
+export function looksLikeCommunicoEvents(response: FeedResponse): boolean {
+  return looksLikeJson(response) && /"(?:raw_start_time|event_start)"\s*:/.test(response.body.slice(0, 4096)) && /"(?:ages|library)"\s*:/.test(response.body);
+}
+
+export function looksLikeLibraryCalendar(response: FeedResponse): boolean {
+  return looksLikeHtml(response) && /class="[^"]*\blc-event\b/.test(response.body);
+}
+
+/**
+ * Events from LibCal's calendar listing (`/ajax/calendar/list`)
+ */
+export function parseLibCalEvents(body: string, pageUrl: string): LibraryEventRecord[] {
+  const data = JSON.parse(body);
+  const items: any[] = Array.isArray(data) ? data : data?.results ?? data?.events ?? [];
+  const records: LibraryEventRecord[] = [];
+
+  for (const item of items) {
+    const title = htmlToText(item?.title);
+    const allDay = truthy(item?.all_day ?? item?.allday);
+    const start = eventDate(item?.startdt ?? item?.start, allDay);
+    if (!title || !start || item.id == null) continue;
+
+    const campus = nameOf(item.campus);
+    const space = nameOf(item.location);
+    const seats = Number(item.seats);
+    const seatsTaken = Number(item.seats_taken);
+    const required = truthy(item.registration) || truthy(item.registration_required);
+    const url = resolveUrl(typeof item.url === 'string' ? item.url : item.url?.public ?? null, pageUrl);
+
+    records.push({
+      id: String(item.id),
+      title,
+      description: htmlToText(item.description) ?? htmlToText(item.shortdesc) ?? '',
+      start,
+      end: eventDate(item.enddt ?? item.end, allDay),
+      branch: campus ?? space,
+      room: campus ? space : null,
+      audienceLabels: namesOf(item.audiences ?? item.audience),
+      categories: namesOf(item.categories ?? item.category),
+      registration: required
+        ? {
+          required,
+          url,
+          status: truthy(item.waitlist) ? 'waitlist' : seats > 0 && seatsTaken >= seats ? 'full' : 'open'
+        }
+        : null,
+      url,
+      imageUrl: resolveUrl(item.featured_image || item.featured_image_url || null, pageUrl),
+      cancelled: /cancel+ed/i.test(`${item.status ?? ''} ${title}`)
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Events from Communico's calendar data (`/eeventcaldata`)
+ */
+export function parseCommunicoEvents(body: string, pageUrl: string): LibraryEventRecord[] {
+  const data = JSON.parse(body);
+  const items: any[] = Array.isArray(data) ? data : data?.events ?? data?.data ?? [];
+  const origin = new URL(pageUrl).origin;
+  const records: LibraryEventRecord[] = [];
+
+  for (const item of items) {
+    const title = [htmlToText(item?.title), htmlToText(item?.sub_title)].filter(Boolean).join(': ');
+    const allDay = truthy(item?.all_day ?? item?.allday);
+    const start = eventDate(item?.raw_start_time ?? item?.event_start, allDay);
+    if (!title || !start || item.id == null) continue;
+
+    const branch = htmlToText(item.library) ?? htmlToText(item.location);
+    const room = htmlToText(item.room) ?? (item.library && htmlToText(item.location) !== branch ? htmlToText(item.location) : null);
+    const url = resolveUrl(item.url || `${origin}/event/${item.id}`, pageUrl);
+    const registrationText = `${item.registration_status ?? ''} ${item.reg_status ?? ''}`;
+
+    records.push({
+      id: String(item.id),
+      title,
+      description: htmlToText(item.long_description) ?? htmlToText(item.description) ?? '',
+      start,
+      end: eventDate(item.raw_end_time ?? item.event_end, allDay),
+      branch,
+      room,
+      audienceLabels: namesOf(item.ages),
+      categories: namesOf(item.types ?? item.tags),
+      registration: truthy(item.registration) || truthy(item.reg_required)
+        ? {
+          required: true,
+          url: resolveUrl(item.registration_url || null, pageUrl) ?? url,
+          status: /wait/i.test(registrationText) ? 'waitlist' : /full/i.test(registrationText) || truthy(item.reg_full) ? 'full' : /closed/i.test(registrationText) ? 'closed' : 'open'
+        }
+        : null,
+      url,
+      imageUrl: resolveUrl(item.image || item.image_url || null, pageUrl),
+      cancelled: truthy(item.cancelled) || /cancel+ed/i.test(`${item.status ?? ''} ${title}`)
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Events from a LibraryCalendar (LibraryMarket) event list page
+ */
+export function parseLibraryCalendarEvents($: CheerioAPI, pageUrl: string): LibraryEventRecord[] {
+  const records: LibraryEventRecord[] = [];
+
+  $('.lc-event').each((_, element) => {
+    const $event = $(element);
+    const $title = $event.find('.lc-event__title a, .lc-event__title').first();
+    const title = collapseWhitespace($title.text());
+    const dateText = collapseWhitespace($event.find('.lc-event__date').first().text());
+    const date = dateText ? normalizeDateText(dateText.replace(/^[a-z]+,\s*/i, '')) : null;
+    if (!title || !date || date.startsWith('T')) return;
+
+    const day = date.slice(0, 10);
+    const timeText = collapseWhitespace($event.find('.lc-event__time, .lc-event-info-item--time').first().text()) ?? '';
+    const times = /all day/i.test(timeText) ? null : parseTimeRange(timeText);
+    const url = resolveUrl($title.is('a') ? $title.attr('href') ?? null : $title.find('a').attr('href') ?? null, pageUrl);
+    const registrationText = collapseWhitespace($event.find('.lc-registration-label, .lc-event__registration').text()) ?? '';
+    const required = !!registrationText || /registration (?:is )?required/i.test($event.text());
+
+    records.push({
+      id: $event.attr('data-event-id') || url || `${title}|${date}`,
+      title,
+      description: collapseWhitespace($event.find('.lc-event__body, .lc-event__description').first().text()) ?? '',
+      start: times ? `${day}T${times.start}` : day,
+      end: times?.end ? `${day}T${times.end}` : null,
+      branch: labelledList($, $event.find('.lc-event__branch'))[0] ?? null,
+      room: labelledList($, $event.find('.lc-event__room'))[0] ?? null,
+      audienceLabels: labelledList($, $event.find('.lc-event__age-groups')),
+      categories: labelledList($, $event.find('.lc-event__program-types')),
+      registration: required
+        ? {
+          required,
+          url,
+          status: /wait ?list/i.test(registrationText) ? 'waitlist' : /\bfull\b/i.test(registrationText) ? 'full' : /closed|ended/i.test(registrationText) ? 'closed' : 'open'
+        }
+        : null,
+      url,
+      imageUrl: resolveUrl($event.find('img').first().attr('src') ?? null, pageUrl),
+      cancelled: $event.hasClass('lc-event--cancelled') || /\bcancel+ed\b/i.test(title)
+    });
+  });
+
+  return records;
+}
+
+// "Age Group: Kids, Teens" - the field label is part of the element's text
+function labelledList($: CheerioAPI, $element: Cheerio<any>): string[] {
+  const text = collapseWhitespace($element.first().text());
+  if (!text) return [];
+  return text.replace(/^[^:]{2,30}:\s*/, '').split(/\s*,\s*/).filter(Boolean);
+}
+
+// Dates come as "2026-10-20 10:00:00", ISO with an offset, or a bare date
+function eventDate(value: unknown, allDay: boolean): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const normalized = normalizeDateText(value.trim());
+  if (!normalized || normalized.startsWith('T')) return null;
+  return allDay ? normalized.slice(0, 10) : normalized;
+}
+
+function nameOf(value: any): string | null {
+  if (typeof value === 'string') return htmlToText(value);
+  return htmlToText(value?.name);
+}
+
+// Lists arrive as arrays of strings or {name} objects, or as comma-separated strings
+function namesOf(value: any): string[] {
+  if (Array.isArray(value)) return value.map(nameOf).filter((name): name is string => !!name);
+  if (typeof value === 'string') return value.split(/\s*,\s*/).map(htmlToText).filter((name): name is string => !!name);
+  const name = nameOf(value);
+  return name ? [name] : [];
+}
+
+function truthy(value: unknown): boolean {
+  return value === true || value === 1 || (typeof value === 'string' && /^(?:1|true|yes)$/i.test(value.trim()));
+}
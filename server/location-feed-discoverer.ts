@@ -1,6 +1,28 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { CalendarSource } from './calendar-collector';
+import { findMeetingPlatformLinks, type MeetingPlatformLink } from './meeting-platforms';
+import { TRIBE_EVENTS_PATH, tribeEventsUrl } from './tribe-events';
+import { findGoogleCalendarEmbeds, type GoogleCalendarEmbed } from './google-calendar';
+import { isValidTimezone } from './timezones';
+import {
+  detectLibraryPlatform,
+  findLibraryPlatformLinks,
+  libraryEventsUrl,
+  parseCommunicoEvents,
+  parseLibCalEvents,
+  parseLibraryCalendarEvents,
+  type LibraryPlatformLink
+} from './library-platforms';
+import {
+  detectRecreationPlatform,
+  findRecreationPlatformLinks,
+  parseActiveNetActivities,
+  parseCivicRecSessions,
+  parseRecDeskPrograms,
+  recreationActivitiesUrl,
+  type RecreationPlatformLink
+} from './recreation-platforms';
 import { cityDiscoverer, US_CITIES_DATABASE } from './us-cities-database';
 
 interface LocationInfo {
@@ -62,6 +84,7 @@ export class LocationFeedDiscoverer {
     '/calendar/feed.xml',
     '/events/feed.xml',
     // WordPress and common CMS patterns
+    TRIBE_EVENTS_PATH, // The Events Calendar plugin's REST API
     '/wp-content/uploads/calendar.ics',
     '/?feed=calendar',
     '/?feed=events',
@@ -332,11 +355,17 @@ export class LocationFeedDiscoverer {
         .replace('{state}', stateSlug)
         .replace('{initials}', cityInitials);
 
-      const discoveredFeeds = await this.checkDomainForFeeds(domain, {
+      const schoolLocation = {
         ...location,
-        type: 'city',
+        type: 'city' as const,
         organizationType: 'school' as const
-      });
+      };
+      const discoveredFeeds = await this.checkDomainForFeeds(domain, schoolLocation);
+
+      // Many districts only publish their academic calendar as a PDF
+      if (discoveredFeeds.length === 0) {
+        discoveredFeeds.push(...await this.findPdfCalendars(domain, schoolLocation));
+      }
 
       feeds.push(...discoveredFeeds);
 
@@ -350,6 +379,83 @@ export class LocationFeedDiscoverer {
     return feeds;
   }
 
+  /**
+   * Look for PDF calendars linked from a district's home and calendar pages, and keep
+   * the best-named ones that really are PDFs
+   */
+  private async findPdfCalendars(domain: string, location: LocationInfo & { organizationType: 'city' | 'school' | 'chamber' | 'library' | 'parks' }): Promise<DiscoveredFeed[]> {
+    const baseUrl = `https://${domain}`;
+    const candidates = new Map<string, number>();
+
+    for (const path of ['', '/calendar', '/calendars', '/district-calendar']) {
+      try {
+        const response = await axios.get(`${baseUrl}${path}`, {
+          timeout: 8000,
+          headers: { 'User-Agent': 'CityWide Events Calendar Discovery Bot 1.0' },
+          maxRedirects: 3,
+          validateStatus: (status) => status < 400
+        });
+        if (typeof response.data !== 'string') continue;
+
+        const $ = cheerio.load(response.data);
+        $('a[href]').each((_, element) => {
+          const href = $(element).attr('href') || '';
+          if (!/\.pdf(?:$|[?#])/i.test(href)) return;
+
+          const label = `${$(element).text()} ${href}`;
+          if (!/calendar/i.test(label)) return;
+
+          let confidence = 0.6;
+          if (/academic|school[\s_-]*year|instructional|district|student/i.test(label)) confidence += 0.1;
+          if (/20\d{2}/.test(label)) confidence += 0.05;
+
+          const url = new URL(href, `${baseUrl}${path}`).toString();
+          candidates.set(url, Math.max(candidates.get(url) ?? 0, confidence));
+        });
+      } catch (error) {
+        // An unreachable home page means the domain doesn't exist; other pages are optional
+        if (path === '') return [];
+      }
+    }
+
+    const ranked = Array.from(candidates.entries()).sort((a, b) => b[1] - a[1]).slice(0, 2);
+    const feeds: DiscoveredFeed[] = [];
+
+    for (const [pdfUrl, confidence] of ranked) {
+      try {
+        const response = await axios.get(pdfUrl, {
+          timeout: 10000,
+          headers: { 'User-Agent': 'CityWide Events Calendar Discovery Bot 1.0' },
+          responseType: 'arraybuffer',
+          maxContentLength: 20 * 1024 * 1024,
+          validateStatus: (status) => status < 400
+        });
+        if (!Buffer.from(response.data).subarray(0, 1024).includes('%PDF-')) continue;
+
+        console.log(`📄 Found PDF academic calendar: ${pdfUrl}`);
+        feeds.push({
+          source: {
+            id: `discovered-${location.city.toLowerCase().replace(/\s+/g, '-')}-${location.organizationType}-pdf-${Date.now()}`,
+            name: `${this.generateSourceName(location)} (PDF Calendar)`,
+            city: location.city,
+            state: location.state,
+            type: location.organizationType,
+            feedUrl: pdfUrl,
+            websiteUrl: baseUrl,
+            isActive: true,
+            feedType: 'pdf'
+          },
+          confidence,
+          lastChecked: new Date()
+        });
+      } catch (error) {
+        console.log(`Could not fetch PDF calendar ${pdfUrl}: ${String(error)}`);
+      }
+    }
+
+    return feeds;
+  }
+
   private async discoverChamberFeeds(location: LocationInfo, citySlug: string, stateSlug: string): Promise<DiscoveredFeed[]> {
     const feeds: DiscoveredFeed[] = [];
     const cityInitials = this.createCityInitials(location.city);
@@ -435,9 +541,77 @@ export class LocationFeedDiscoverer {
       }
     }
 
+    // Library platforms give each library a subdomain, usually named after the city
+    if (!feeds.some(feed => detectLibraryPlatform(feed.source.feedUrl || ''))) {
+      for (const site of this.libraryPlatformSiteGuesses(citySlug, cityInitials)) {
+        const link = detectLibraryPlatform(`https://${site}`);
+        const feed = link ? await this.validateLibraryPlatform(link, { ...location, type: 'city', organizationType: 'library' as const }) : null;
+        if (feed) {
+          feeds.push(feed);
+          break;
+        }
+      }
+    }
+
     return feeds;
   }
 
+  private libraryPlatformSiteGuesses(citySlug: string, cityInitials: string): string[] {
+    const names = [citySlug, `${citySlug}library`, `${citySlug}pl`, `${cityInitials}pl`];
+    return [
+      ...names.map(name => `${name}.libcal.com`),
+      ...names.map(name => `${name}.libnet.info`),
+      ...names.map(name => `${name}.librarycalendar.com`)
+    ];
+  }
+
+  /**
+   * Check a library platform site answers with its event listing, and describe it as a source
+   */
+  private async validateLibraryPlatform(link: LibraryPlatformLink, location: LocationInfo & { organizationType: 'city' | 'school' | 'chamber' | 'library' | 'parks' }): Promise<DiscoveredFeed | null> {
+    const listingUrl = libraryEventsUrl(link.platform, link.url, new Date());
+
+    try {
+      const response = await axios.get(listingUrl, {
+        timeout: 10000,
+        headers: { 'User-Agent': 'CityWide Events Calendar Discovery Bot 1.0' },
+        maxRedirects: 3,
+        responseType: 'text',
+        validateStatus: (status) => status < 400
+      });
+
+      const body = String(response.data);
+      const records = link.platform === 'libcal'
+        ? parseLibCalEvents(body, listingUrl)
+        : link.platform === 'communico'
+          ? parseCommunicoEvents(body, listingUrl)
+          : parseLibraryCalendarEvents(cheerio.load(body), listingUrl);
+      if (link.platform === 'librarymarket' && records.length === 0) {
+        return null;
+      }
+
+      console.log(`📚 Found ${link.platform} library calendar with ${records.length} upcoming events: ${link.url}`);
+      return {
+        source: {
+          id: `discovered-${location.city.toLowerCase().replace(/\s+/g, '-')}-library-${link.platform}-${link.site.split('.')[0]}`,
+          name: this.generateSourceName({ ...location, organizationType: 'library' }),
+          city: location.city,
+          state: location.state,
+          type: 'library',
+          feedUrl: link.url,
+          websiteUrl: `https://${link.site}`,
+          isActive: true,
+          feedType: link.platform
+        },
+        confidence: records.length > 0 ? 0.9 : 0.75,
+        lastChecked: new Date()
+      };
+    } catch (error) {
+      // Not a site on this platform, or its listing isn't public
+      return null;
+    }
+  }
+
   private async discoverParkRecFeeds(location: LocationInfo, citySlug: string, stateSlug: string, workingCityWebsite?: string | null): Promise<DiscoveredFeed[]> {
     const feeds: DiscoveredFeed[] = [];
 
@@ -508,7 +682,78 @@ export class LocationFeedDiscoverer {
       }
     }
 
-    return feeds;
+    // Registration systems give each department an account, usually named after the city
+    if (!feeds.some(feed => detectRecreationPlatform(feed.source.feedUrl || ''))) {
+      for (const url of this.recreationPlatformSiteGuesses(citySlug, stateSlug)) {
+        const link = detectRecreationPlatform(url);
+        const feed = link ? await this.validateRecreationPlatform(link, { ...location, type: 'city', organizationType: 'parks' as const }) : null;
+        if (feed) {
+          feeds.push(feed);
+          break;
+        }
+      }
+    }
+
+    // Several parks pages usually link the same registration system
+    return feeds.filter((feed, index, self) => index === self.findIndex(f => f.source.feedUrl === feed.source.feedUrl));
+  }
+
+  private recreationPlatformSiteGuesses(citySlug: string, stateSlug: string): string[] {
+    const names = [citySlug, `${citySlug}parks`, `${citySlug}parksandrec`, `cityof${citySlug}`];
+    const state = stateSlug.length === 2 ? stateSlug.toUpperCase() : null;
+    return [
+      ...names.map(name => `https://anc.apm.activecommunities.com/${name}`),
+      ...names.map(name => `https://${name}.recdesk.com`),
+      ...(state ? [`https://secure.rec1.com/${state}/${citySlug}`, `https://secure.rec1.com/${state}/${citySlug}-parks`] : [])
+    ];
+  }
+
+  /**
+   * Check a recreation registration system answers with its activity listing, and describe it as a source
+   */
+  private async validateRecreationPlatform(link: RecreationPlatformLink, location: LocationInfo & { organizationType: 'city' | 'school' | 'chamber' | 'library' | 'parks' }): Promise<DiscoveredFeed | null> {
+    const listingUrl = recreationActivitiesUrl(link.platform, link.url, new Date());
+
+    try {
+      const response = await axios.get(listingUrl, {
+        timeout: 10000,
+        headers: { 'User-Agent': 'CityWide Events Calendar Discovery Bot 1.0' },
+        maxRedirects: 3,
+        responseType: 'text',
+        validateStatus: (status) => status < 400
+      });
+
+      const body = String(response.data);
+      const records = link.platform === 'activenet'
+        ? parseActiveNetActivities(body, listingUrl)
+        : link.platform === 'civicrec'
+          ? parseCivicRecSessions(body, listingUrl)
+          : parseRecDeskPrograms(cheerio.load(body), listingUrl);
+      // RecDesk answers for any subdomain, so only a page with programs counts
+      if (link.platform === 'recdesk' && records.length === 0) {
+        return null;
+      }
+
+      console.log(`🏊 Found ${link.platform} recreation registration with ${records.length} activities: ${link.url}`);
+      return {
+        source: {
+          id: `discovered-${location.city.toLowerCase().replace(/\s+/g, '-')}-parks-${link.platform}-${link.site.replace(/\W+/g, '-').toLowerCase()}`,
+          name: this.generateSourceName({ ...location, organizationType: 'parks' }),
+          city: location.city,
+          state: location.state,
+          type: 'parks',
+          feedUrl: link.url,
+          websiteUrl: link.url,
+          isActive: true,
+          feedType: link.platform
+        },
+        confidence: records.length > 0 ? 0.9 : 0.75,
+        lastChecked: new Date()
+      };
+    } catch (error) {
+      // Not an account on this platform, or its listing isn't public
+      return null;
+    }
   }
 
   private async checkDomainForFeeds(domain: string, location: LocationInfo & { organizationType: 'city' | 'school' | 'chamber' | 'library' | 'parks' }): Promise<DiscoveredFeed[]> {
@@ -573,6 +818,40 @@ export class LocationFeedDiscoverer {
       const $ = cheerio.load(response.data);
       const discoveredPaths = new Set<string>();
 
+      // Council and board meetings usually live on Legistar or Granicus, not the city's own CMS
+      if (location.organizationType === 'city') {
+        feeds.push(...await this.findMeetingPlatformFeeds($, baseUrl, location));
+      }
+
+      // Libraries mostly run their programs on LibCal, Communico or LibraryCalendar
+      if (location.organizationType === 'library') {
+        for (const link of findLibraryPlatformLinks($, baseUrl)) {
+          const feed = await this.validateLibraryPlatform(link, location);
+          if (feed) feeds.push(feed);
+        }
+      }
+
+      // Parks departments take class and camp registrations through ActiveNet, RecDesk or CivicRec
+      if (location.organizationType === 'parks') {
+        for (const link of findRecreationPlatformLinks($, baseUrl)) {
+          const feed = await this.validateRecreationPlatform(link, location);
+          if (feed) feeds.push(feed);
+        }
+      }
+
+      feeds.push(...await this.findGoogleCalendarFeeds($, baseUrl, location));
+
+      // WordPress advertises its REST root; The Events Calendar serves events beneath it
+      const wordPressRestRoot = $('link[rel="https://api.w.org/"]').attr('href');
+      if (wordPressRestRoot) {
+        try {
+          const endpoint = new URL(tribeEventsUrl(new URL(wordPressRestRoot, baseUrl).toString()));
+          discoveredPaths.add(endpoint.origin === new URL(baseUrl).origin ? endpoint.pathname : `${endpoint.origin}${endpoint.pathname}`);
+        } catch (e) {
+          // Invalid URL, skip
+        }
+      }
+
       // Look for obvious calendar/events links
       $('a[href*="calendar"], a[href*="events"]').each((_, element) => {
         const href = $(element).attr('href');
@@ -1231,6 +1510,149 @@ export class LocationFeedDiscoverer {
     return feeds;
   }
 
+  /**
+   * Find the city's Legistar or Granicus meeting calendar, linked from the home page or
+   * from its agendas & minutes page
+   */
+  private async findMeetingPlatformFeeds($: cheerio.CheerioAPI, baseUrl: string, location: LocationInfo & { organizationType: 'city' | 'school' | 'chamber' | 'library' | 'parks' }): Promise<DiscoveredFeed[]> {
+    const links = findMeetingPlatformLinks($, baseUrl);
+
+    if (links.length === 0) {
+      const meetingPages = new Set<string>();
+      $('a[href]').each((_, element) => {
+        const label = `${$(element).text()} ${$(element).attr('href')}`;
+        if (!/agenda|minutes|public meetings|council meetings/i.test(label)) return;
+        try {
+          const url = new URL($(element).attr('href')!, baseUrl);
+          if (url.hostname === new URL(baseUrl).hostname) meetingPages.add(url.toString());
+        } catch (e) {
+          // Invalid URL, skip
+        }
+      });
+
+      for (const pageUrl of Array.from(meetingPages).slice(0, 3)) {
+        try {
+          const page = await axios.get(pageUrl, {
+            timeout: 8000,
+            headers: { 'User-Agent': 'CityWide Events Calendar Discovery Bot 1.0' },
+            maxRedirects: 3
+          });
+          if (typeof page.data !== 'string') continue;
+          links.push(...findMeetingPlatformLinks(cheerio.load(page.data), pageUrl));
+          if (links.length > 0) break;
+        } catch (error) {
+          // Page not accessible, try the next one
+        }
+      }
+    }
+
+    const feeds: DiscoveredFeed[] = [];
+    const checked = new Set<string>();
+    for (const link of links) {
+      if (checked.has(link.url)) continue;
+      checked.add(link.url);
+
+      if (!await this.meetingPlatformResponds(link)) continue;
+
+      const platformName = link.platform === 'legistar' ? 'Legistar' : 'Granicus';
+      console.log(`🏛️ Found ${platformName} meeting calendar: ${link.url}`);
+      feeds.push({
+        source: {
+          id: `discovered-${location.city.toLowerCase().replace(/\s+/g, '-')}-${link.platform}-${link.client}`,
+          name: `${location.city} Public Meetings (${platformName})`,
+          city: location.city,
+          state: location.state,
+          type: 'city',
+          feedUrl: link.url,
+          websiteUrl: baseUrl,
+          isActive: true,
+          feedType: link.platform
+        },
+        confidence: 0.9,
+        lastChecked: new Date()
+      });
+    }
+
+    return feeds;
+  }
+
+  /**
+   * Google Calendars embedded on a page, added as iCal sources through their public
+   * feeds. The calendar's own name and zone (X-WR-CALNAME, X-WR-TIMEZONE) are preferred
+   * over the embed's title and display zone.
+   */
+  private async findGoogleCalendarFeeds($: cheerio.CheerioAPI, pageUrl: string, location: LocationInfo & { organizationType: 'city' | 'school' | 'chamber' | 'library' | 'parks' }): Promise<DiscoveredFeed[]> {
+    const feeds: DiscoveredFeed[] = [];
+
+    for (const embed of findGoogleCalendarEmbeds($, pageUrl)) {
+      const feed = await this.validateGoogleCalendar(embed, pageUrl, location);
+      if (feed) feeds.push(feed);
+    }
+
+    return feeds;
+  }
+
+  private async validateGoogleCalendar(embed: GoogleCalendarEmbed, pageUrl: string, location: LocationInfo & { organizationType: 'city' | 'school' | 'chamber' | 'library' | 'parks' }): Promise<DiscoveredFeed | null> {
+    try {
+      const response = await axios.get(embed.icalUrl, {
+        timeout: 10000,
+        headers: { 'User-Agent': 'CityWide Events Calendar Discovery Bot 1.0' },
+        maxRedirects: 3,
+        responseType: 'text'
+      });
+
+      const body = String(response.data);
+      // Private calendars answer with a sign-in page rather than a 404
+      if (!body.includes('BEGIN:VCALENDAR')) {
+        console.log(`Google Calendar ${embed.calendarId} is not public - skipping`);
+        return null;
+      }
+
+      const calendarName = body.match(/^X-WR-CALNAME:(.+)$/m)?.[1].replace(/\\([,;\\])/g, '$1').trim() || null;
+      const calendarZone = body.match(/^X-WR-TIMEZONE:(.+)$/m)?.[1].trim() || embed.timezone;
+      const name = calendarName ?? embed.title;
+
+      console.log(`📅 Found embedded Google Calendar "${name ?? embed.calendarId}": ${embed.icalUrl}`);
+      return {
+        source: {
+          id: `discovered-${location.city.toLowerCase().replace(/\s+/g, '-')}-${location.organizationType}-gcal-${embed.calendarId.split('@')[0].replace(/\W+/g, '-').toLowerCase().slice(0, 40)}`,
+          name: name ? `${this.generateSourceName(location)} - ${name}` : `${this.generateSourceName(location)} (Google Calendar)`,
+          city: location.city,
+          state: location.state,
+          type: location.organizationType,
+          feedUrl: embed.icalUrl,
+          websiteUrl: pageUrl,
+          isActive: true,
+          feedType: 'ical',
+          timezone: calendarZone && isValidTimezone(calendarZone) ? calendarZone : undefined,
+          color: embed.color ?? undefined
+        },
+        confidence: 0.95,
+        lastChecked: new Date()
+      };
+    } catch (error) {
+      console.log(`Google Calendar ${embed.calendarId} not accessible: ${String(error)}`);
+      return null;
+    }
+  }
+
+  private async meetingPlatformResponds(link: MeetingPlatformLink): Promise<boolean> {
+    try {
+      const response = await axios.get(link.url, {
+        timeout: 10000,
+        headers: { 'User-Agent': 'CityWide Events Calendar Discovery Bot 1.0' },
+        maxRedirects: 3
+      });
+      const body = String(response.data);
+      return link.platform === 'legistar'
+        ? /legistar/i.test(body)
+        : /(?:Agenda|Minutes)Viewer\.php|MediaPlayer\.php|listingTable/i.test(body);
+    } catch (error) {
+      console.log(`Meeting calendar ${link.url} not accessible: ${String(error)}`);
+      return false;
+    }
+  }
+
   private async checkSpecificPathForFeeds(domain: string, specificPath: string, location: LocationInfo & { organizationType: 'city' | 'school' | 'chamber' | 'library' | 'parks' }): Promise<DiscoveredFeed[]> {
     const feeds: DiscoveredFeed[] = [];
 
@@ -1265,6 +1687,15 @@ export class LocationFeedDiscoverer {
       const $ = cheerio.load(response.data);
       const discoveredPaths = new Set<string>();
 
+      if (location.organizationType === 'parks') {
+        for (const link of findRecreationPlatformLinks($, fullUrl)) {
+          const feed = await this.validateRecreationPlatform(link, location);
+          if (feed) feeds.push(feed);
+        }
+      }
+
+      feeds.push(...await this.findGoogleCalendarFeeds($, fullUrl, location));
+
       // Look for calendar/events links on this specific page
       $('a[href*="calendar"], a[href*="events"]').each((_, element) => {
         const href = $(element).attr('href');
@@ -1334,6 +1765,10 @@ export class LocationFeedDiscoverer {
         }
       }
 
+      if (feedUrl.includes('/tribe/events/v1/events')) {
+        return await this.validateTribeEventsFeed(feedUrl, location);
+      }
+
       // First verify the domain/website exists before checking feed URLs
       const feedDomain = new URL(feedUrl).origin;
       try {
@@ -1545,6 +1980,45 @@ export class LocationFeedDiscoverer {
     }
   }
 
+  /**
+   * Check a WordPress site's The Events Calendar endpoint answers with its events list
+   */
+  private async validateTribeEventsFeed(feedUrl: string, location: LocationInfo & { organizationType: 'city' | 'school' | 'chamber' | 'library' | 'parks' }): Promise<DiscoveredFeed | null> {
+    try {
+      const response = await axios.get(tribeEventsUrl(feedUrl), {
+        timeout: 10000,
+        headers: { 'User-Agent': 'CityWide Events Calendar Discovery Bot 1.0', 'Accept': 'application/json' },
+        maxRedirects: 3,
+        validateStatus: (status) => status < 400
+      });
+
+      const data = typeof response.data === 'string' ? JSON.parse(response.data) : response.data;
+      if (!data || !Array.isArray(data.events)) {
+        return null;
+      }
+
+      console.log(`✅ Found The Events Calendar API with ${data.total ?? data.events.length} upcoming events: ${feedUrl}`);
+      return {
+        source: {
+          id: `discovered-${location.city.toLowerCase().replace(/\s+/g, '-')}-${location.organizationType}-tribe-${Date.now()}`,
+          name: this.generateSourceName(location),
+          city: location.city,
+          state: location.state,
+          type: location.organizationType,
+          feedUrl,
+          websiteUrl: new URL(feedUrl).origin,
+          isActive: true,
+          feedType: 'tribe'
+        },
+        confidence: data.events.length > 0 ? 0.9 : 0.7,
+        lastChecked: new Date()
+      };
+    } catch (error) {
+      // Not a WordPress site, or the plugin isn't installed
+      return null;
+    }
+  }
+
   private async trySubscriptionPageParameters(feedUrl: string, location: LocationInfo & { organizationType: 'city' | 'school' | 'chamber' | 'library' | 'parks' }): Promise<DiscoveredFeed[]> {
     const variations: DiscoveredFeed[] = [];
 
@@ -2041,8 +2515,10 @@ export class LocationFeedDiscoverer {
 
       console.log(`📋 Found ${feedUrls.length} subscription URLs on calendar page`);
 
+      // An embedded Google Calendar is its own subscription: every public calendar has an iCal feed
+      const workingFeeds: DiscoveredFeed[] = await this.findGoogleCalendarFeeds(cheerio.load(html), calendarPageUrl, location);
+
       // Now follow each subscription URL to find "All" or "All Events" buttons
-      const workingFeeds: DiscoveredFeed[] = [];
 
       for (const subscriptionUrl of Array.from(feedUrls)) {
         console.log(`🔎 Checking subscription page: ${subscriptionUrl}`);
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import { parseGranicusPublisher, parseLegistarEvents } from './meeting-platforms';
+
+// Saved sample responses, so the adapters are checked without reaching the platforms
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/meetings/${name}`, import.meta.url), 'utf8');
+
+test('Legistar events map bodies, times and documents', () => {
+  const meetings = parseLegistarEvents(fixture('legistar-events.json'), 'springfield');
+  assert.equal(meetings.length, 4);
+
+  const [council, planning, parks, pastCouncil] = meetings;
+  assert.deepEqual(
+    [council.body, council.title, council.start, council.location],
+    ['City Council', 'City Council Meeting', '2026-10-20T18:00:00', 'City Hall, Council Chambers, 600 Fourth Avenue']
+  );
+  assert.equal(council.agendaUrl, 'https://legistar.granicus.com/springfield/meetings/2026/10/6412_A_City_Council_26-10-20_Meeting_Agenda.pdf');
+  assert.equal(council.minutesUrl, null);
+  assert.equal(council.videoUrl, 'https://springfield.legistar.com/Video.aspx?Mode=Granicus&ID1=4417&Mode2=Video');
+  assert.match(council.detailUrl ?? '', /MeetingDetail\.aspx\?LEGID=6412/);
+
+  assert.deepEqual([planning.agendaUrl, planning.minutesUrl, planning.videoUrl, planning.cancelled], [null, null, null, false]);
+  assert.equal(parks.cancelled, true);
+  assert.equal(pastCouncil.minutesUrl, 'https://legistar.granicus.com/springfield/meetings/2026/10/6398_M_City_Council_26-10-13_Meeting_Minutes.pdf');
+  assert.equal(pastCouncil.videoUrl, 'https://springfield.granicus.com/player/clip/4409?view_id=2');
+});
+
+test('Granicus publisher rows map upcoming and archived meetings with their documents', () => {
+  const meetings = parseGranicusPublisher(cheerio.load(fixture('granicus-publisher.html')), 'https://riverton.granicus.com/ViewPublisher.php?view_id=2');
+  assert.equal(meetings.length, 4);
+
+  const [council, planning, archived, zoning] = meetings;
+  assert.deepEqual([council.body, council.start, council.cancelled], ['City Council', '2026-10-21T18:00:00', false]);
+  assert.equal(council.agendaUrl, 'https://riverton.granicus.com/AgendaViewer.php?view_id=2&event_id=1187');
+  assert.deepEqual([planning.body, planning.start, planning.cancelled], ['Planning Commission', '2026-10-28T19:00:00', true]);
+
+  // Archived clips are published without a time
+  assert.equal(archived.start, '2026-10-07');
+  assert.equal(archived.minutesUrl, 'https://riverton.granicus.com/MinutesViewer.php?view_id=2&clip_id=3302&doc_id=8f3c2a1e-11aa-4b2c-9d3e-5f6a7b8c9d0e');
+  assert.equal(archived.videoUrl, 'https://riverton.granicus.com/MediaPlayer.php?view_id=2&clip_id=3302');
+  assert.deepEqual([zoning.body, zoning.minutesUrl], ['Zoning Board of Appeals', null]);
+});
@@ -0,0 +1,256 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { looksLikeHtml, looksLikeJson, type FeedResponse } from './feed-parsers';
+import { collapseWhitespace, normalizeDateText, resolveUrl } from './structured-data';
+
+/**
+ * Public meeting calendars hosted on Legistar and Granicus, the platforms most larger
+ * cities use for council, commission and board meetings. Legistar is read through its
+ * public web API (a JSON list of events); Granicus through its "ViewPublisher" page,
+ * a table of meetings with agenda, minutes and video links.
+ *
+ * Everything here works on response bodies rather than fetching, so the adapters can be
+ * run offline against the saved sample responses in `server/fixtures/meetings`.
+ */
+
+export type MeetingPlatform = 'legistar' | 'granicus';
+
+export interface MeetingRecord {
+  id: string;
+  body: string;
+  title: string;
+  start: string; // source wall-clock time, YYYY-MM-DDTHH:mm:ss, or YYYY-MM-DD when no time is published
+  location: string | null;
+  agendaUrl: string | null;
+  minutesUrl: string | null;
+  videoUrl: string | null;
+  detailUrl: string | null;
+  cancelled: boolean;
+}
+
+export interface MeetingPlatformLink {
+  platform: MeetingPlatform;
+  client: string; // the city's account name, e.g. "seattle" in seattle.legistar.com
+  url: string; // canonical calendar URL for the source
+}
+
+// Hosts on these platforms that serve files or shared assets rather than a city's calendar
+const NON_CLIENT_HOSTS = new Set(['www', 'webapi', 'legistar', 'cdn', 'media', 'static', 'video']);
+
+/**
+ * Recognise a link into a city's Legistar or Granicus calendar
+ */
+export function detectMeetingPlatform(url: string): MeetingPlatformLink | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.startsWith('//') ? `https:${url}` : url);
+  } catch {
+    return null;
+  }
+  const host = parsed.hostname.toLowerCase();
+
+  const legistarApi = host === 'webapi.legistar.com' && parsed.pathname.match(/^\/v1\/([\w-]+)/i);
+  if (legistarApi) {
+    const client = legistarApi[1].toLowerCase();
+    return { platform: 'legistar', client, url: `https://${client}.legistar.com/Calendar.aspx` };
+  }
+
+  const legistar = host.match(/^([\w-]+)\.legistar\.com$/);
+  if (legistar && !NON_CLIENT_HOSTS.has(legistar[1])) {
+    return { platform: 'legistar', client: legistar[1], url: `https://${legistar[1]}.legistar.com/Calendar.aspx` };
+  }
+
+  const granicus = host.match(/^([\w-]+)\.granicus\.com$/);
+  const viewId = parsed.searchParams.get('view_id');
+  if (granicus && !NON_CLIENT_HOSTS.has(granicus[1]) && viewId && /^\/ViewPublisher(?:RSS)?\.php$/i.test(parsed.pathname)) {
+    return { platform: 'granicus', client: granicus[1], url: `https://${granicus[1]}.granicus.com/ViewPublisher.php?view_id=${viewId}` };
+  }
+
+  return null;
+}
+
+export function looksLikeLegistarEvents(response: FeedResponse): boolean {
+  return looksLikeJson(response) && /"EventBodyName"\s*:/.test(response.body.slice(0, 4096));
+}
+
+export function looksLikeGranicusPublisher(response: FeedResponse): boolean {
+  return looksLikeHtml(response) && /(?:Agenda|Minutes)Viewer\.php|MediaPlayer\.php/i.test(response.body);
+}
+
+/**
+ * Meeting calendars linked or embedded on a city page, one per platform account
+ */
+export function findMeetingPlatformLinks($: CheerioAPI, pageUrl: string): MeetingPlatformLink[] {
+  const found = new Map<string, MeetingPlatformLink>();
+
+  $('a[href], iframe[src]').each((_, element) => {
+    const $element = $(element);
+    const url = resolveUrl($element.attr('href') || $element.attr('src') || null, pageUrl);
+    const link = url ? detectMeetingPlatform(url) : null;
+    if (link && !found.has(link.url)) found.set(link.url, link);
+  });
+
+  return Array.from(found.values());
+}
+
+/**
+ * The Legistar web API query for meetings from `from` onwards. A feed URL that already
+ * points at the API is used as is; an access token on the feed URL is carried over.
+ */
+export function legistarEventsApiUrl(feedUrl: string, from: Date): string | null {
+  if (/^https?:\/\/webapi\.legistar\.com\//i.test(feedUrl)) return feedUrl;
+
+  const link = detectMeetingPlatform(feedUrl);
+  if (!link || link.platform !== 'legistar') return null;
+
+  const day = `${from.getFullYear()}-${String(from.getMonth() + 1).padStart(2, '0')}-${String(from.getDate()).padStart(2, '0')}`;
+  const query = [
+    `$filter=${encodeURIComponent(`EventDate ge datetime'${day}'`)}`,
+    `$orderby=${encodeURIComponent('EventDate asc')}`,
+    '$top=200'
+  ];
+  const token = new URL(feedUrl).searchParams.get('token');
+  if (token) query.push(`token=${encodeURIComponent(token)}`);
+
+  return `https://webapi.legistar.com/v1/${link.client}/events?${query.join('&')}`;
+}
+
+/**
+ * Meetings from a Legistar web API `events` response
+ */
+export function parseLegistarEvents(body: string, client: string): MeetingRecord[] {
+  const data = JSON.parse(body);
+  if (!Array.isArray(data)) throw new Error('Legistar events response is not a list');
+
+  const meetings: MeetingRecord[] = [];
+  for (const event of data) {
+    const date = typeof event?.EventDate === 'string' ? event.EventDate.slice(0, 10) : null;
+    const bodyName = collapseWhitespace(event?.EventBodyName);
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !bodyName) continue;
+
+    // EventTime is a separate "6:00 PM" string; EventDate carries a midnight placeholder
+    const time = normalizeDateText(collapseWhitespace(event.EventTime) ?? '');
+    const location = collapseWhitespace(String(event.EventLocation ?? '').replace(/\s*[\r\n]+\s*/g, ', '));
+    const status = [event.EventAgendaStatusName, event.EventComment, location].filter(Boolean).join(' ');
+
+    meetings.push({
+      id: String(event.EventId ?? event.EventGuid ?? `${bodyName}|${date}`),
+      body: bodyName,
+      title: meetingTitle(bodyName),
+      start: time?.startsWith('T') ? `${date}${time}` : date,
+      location,
+      agendaUrl: collapseWhitespace(event.EventAgendaFile),
+      minutesUrl: collapseWhitespace(event.EventMinutesFile),
+      videoUrl: collapseWhitespace(event.EventVideoPath) ??
+        (event.EventMedia ? `https://${client}.legistar.com/Video.aspx?Mode=Granicus&ID1=${event.EventMedia}&Mode2=Video` : null),
+      detailUrl: collapseWhitespace(event.EventInSiteURL),
+      cancelled: /\bcancel+ed\b/i.test(status)
+    });
+  }
+
+  return meetings;
+}
+
+/**
+ * Meetings from a Granicus ViewPublisher page. Rows are matched by their agenda,
+ * minutes and media links; the body comes from the section the table sits in, or
+ * failing that from the meeting name ("City Council Regular Meeting").
+ */
+export function parseGranicusPublisher($: CheerioAPI, pageUrl: string): MeetingRecord[] {
+  const meetings: MeetingRecord[] = [];
+  const seen = new Set<string>();
+
+  $('tr').each((_, row) => {
+    const $row = $(row);
+    const $cells = $row.children('td');
+    if ($cells.length < 2) return;
+
+    const links: string[] = [];
+    $row.find('a').each((_, anchor) => {
+      const $anchor = $(anchor);
+      const href = $anchor.attr('href') || '';
+      // Media players usually open from an onclick with a javascript: href
+      const target = /^javascript:/i.test(href) || !href
+        ? ($anchor.attr('onclick') || '').match(/['"]((?:https?:)?\/\/[^'"]+|[^'"]*\.php\?[^'"]+)['"]/)?.[1]
+        : href;
+      const url = target ? resolveUrl(target, pageUrl) : null;
+      if (url) links.push(`${url} ${collapseWhitespace($anchor.text()) ?? ''}`);
+    });
+    if (!$row.hasClass('listingRow') && !links.some(link => /(?:Agenda|Minutes)Viewer\.php|MediaPlayer\.php|[?&](?:event|clip)_id=/i.test(link))) return;
+
+    const name = collapseWhitespace($row.children('td[headers^="Name"]').first().text() || $cells.first().text());
+    if (!name) return;
+
+    let dateText: string | null = collapseWhitespace($row.children('td[headers^="Date"]').first().text());
+    if (!dateText) {
+      $cells.each((_, cell) => {
+        const text = collapseWhitespace($(cell).text());
+        if (!dateText && text && text !== name && granicusDate(text)) dateText = text;
+      });
+    }
+    const start = dateText ? granicusDate(dateText) : null;
+    if (!start) return;
+
+    const linkUrl = (pattern: RegExp) => links.find(link => pattern.test(link))?.split(' ')[0] ?? null;
+    const agendaUrl = linkUrl(/AgendaViewer\.php|GeneratedAgenda|\bagenda\b/i);
+    const minutesUrl = linkUrl(/MinutesViewer\.php|\bminutes\b/i);
+    const videoUrl = links.find(link => /MediaPlayer\.php|\/player\/clip\/|\b(?:video|watch)\b/i.test(link) && !/(?:Agenda|Minutes)Viewer\.php/i.test(link))?.split(' ')[0] ?? null;
+    const idMatch = links.join(' ').match(/[?&](event_id|clip_id)=(\d+)/i);
+    const id = idMatch ? `${idMatch[1].replace('_id', '')}-${idMatch[2]}` : `${name}|${start}`;
+    if (seen.has(id)) return;
+    seen.add(id);
+
+    const body = sectionHeading($, $row) ?? bodyFromName(name);
+    meetings.push({
+      id,
+      body,
+      title: name.toLowerCase().includes(body.toLowerCase()) ? name : `${body} - ${name}`,
+      start,
+      location: null,
+      agendaUrl,
+      minutesUrl,
+      videoUrl,
+      detailUrl: null,
+      cancelled: /\bcancel+ed\b/i.test(name)
+    });
+  });
+
+  return meetings;
+}
+
+// "Oct 21, 2026 - 06:00 PM", "October 21, 2026", "10/21/2026 6:00 PM"
+function granicusDate(text: string): string | null {
+  const cleaned = text.replace(/\s+[-–—@]\s+(?=\d{1,2}:\d{2})/, ' ').replace(/\s+/g, ' ').trim();
+  if (!/\d{4}/.test(cleaned) || cleaned.length > 40) return null;
+  const normalized = normalizeDateText(cleaned);
+  return normalized && !normalized.startsWith('T') ? normalized : null;
+}
+
+// Granicus groups archives by body in collapsible panels or under headings
+function sectionHeading($: CheerioAPI, $row: Cheerio<any>): string | null {
+  const $table = $row.closest('table');
+  const candidates = [
+    $row.closest('.CollapsiblePanel').find('.CollapsiblePanelTab').first().text(),
+    $table.find('caption').first().text(),
+    $table.prevAll('h1, h2, h3, h4').first().text(),
+    $table.parent().prevAll('h1, h2, h3, h4').first().text()
+  ];
+
+  for (const candidate of candidates) {
+    const heading = collapseWhitespace(candidate);
+    if (heading && heading.length <= 80 && !/^(?:upcoming|archived?|past|recent|current)\b|^(?:meetings?|events|videos?)$/i.test(heading)) {
+      return heading.replace(/\s+(?:meetings?|archives?|videos?)$/i, '');
+    }
+  }
+  return null;
+}
+
+function bodyFromName(name: string): string {
+  const body = name
+    .replace(/\s*(?:[-–—:]\s*)?\b(?:regular|special|adjourned|joint|emergency|annual|rescheduled|study session|work session|workshop|meeting|hearing|cancel+ed)\b.*$/i, '')
+    .trim();
+  return body || name;
+}
+
+function meetingTitle(body: string): string {
+  return /\b(?:meeting|hearing|session|workshop)\b/i.test(body) ? body : `${body} Meeting`;
+}
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCalendarLines } from './pdf-calendar';
+
+// Early in the 2025-2026 school year
+const NOW = new Date(2025, 8, 1);
+
+const dates = (entries: ReturnType<typeof parseCalendarLines>) => entries.map(entry => [entry.title, entry.startDate, entry.endDate]);
+
+test('reads a month-name range and a numeric range across the new year', () => {
+  const entries = parseCalendarLines(['Nov 24-28 Thanksgiving Break – No School', '12/22 - 1/2 Winter Recess'], NOW);
+  assert.deepEqual(dates(entries), [
+    ['Thanksgiving Break – No School', '2025-11-24', '2025-11-28'],
+    ['Winter Recess', '2025-12-22', '2026-01-02']
+  ]);
+  assert.deepEqual(entries.map(entry => entry.confidence), [0.75, 0.65]);
+});
+
+test('takes years from the school year in the heading over the current date', () => {
+  const entries = parseCalendarLines([
+    'Springfield Unified School District',
+    '2026-27 Academic Calendar',
+    'Aug 12 First Day of School',
+    'Jan 18 Martin Luther King Jr. Day'
+  ], NOW);
+  assert.deepEqual(dates(entries), [
+    ['First Day of School', '2026-08-12', '2026-08-12'],
+    ['Martin Luther King Jr. Day', '2027-01-18', '2027-01-18']
+  ]);
+  assert.deepEqual(entries.map(entry => entry.confidence), [0.9, 0.9]);
+});
+
+test('keeps a year written on the line', () => {
+  const [entry] = parseCalendarLines(['Monday, May 24, 2027 Memorial Day – No School'], NOW);
+  assert.deepEqual([entry.title, entry.startDate, entry.endDate, entry.confidence], ['Memorial Day – No School', '2027-05-24', '2027-05-24', 0.95]);
+});
+
+test('rejects rows of bare grid numbers and weekday initials', () => {
+  assert.deepEqual(parseCalendarLines(['S M T W T F S', '1 2 3 4 5 6 7', 'Nov 3 4 5 6 7 8', '9 10 11 12 13 14 15', '11/16 17 18 19 20 21 22'], NOW), []);
+});
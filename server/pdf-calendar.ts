@@ -0,0 +1,280 @@
+/**
+ * Reads school-district academic calendars published as PDFs. Text is pulled out with
+ * its layout (rows by vertical position, columns split on wide gaps), then lines that
+ * open with a date or date range - "Nov 24-28 Thanksgiving Break – No School",
+ * "12/22 - 1/2 Winter Recess" - become all-day entries with a confidence score.
+ */
+
+export interface PdfCalendarEntry {
+  title: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  // 0-1: how sure we are that the line is a calendar entry and its dates are right
+  confidence: number;
+  line: string;
+}
+
+// Entries scoring below this are more likely table fragments than calendar entries
+export const MIN_PDF_CONFIDENCE = 0.4;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const WEEKDAY = '(?:(?:mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(?:day|nesday|rsday|urday)?\\.?,?\\s+)?';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?(?!\\d)';
+const YEAR = '(?:,?\\s+(\\d{4}))?';
+const RANGE = '\\s*(?:-|–|—|to|through|thru)\\s*';
+
+// "Nov 24-28", "Monday, November 24, 2025", "Dec 22 - Jan 2"
+const MONTH_NAME_DATE = new RegExp(`^${WEEKDAY}${MONTH}\\s+${DAY}${YEAR}(?:${RANGE}${WEEKDAY}(?:${MONTH}\\s+)?${DAY}${YEAR})?`, 'i');
+// "11/24", "11/24/25", "12/22-1/2", "11/24-28"
+const NUMERIC_DATE = /^(?:(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+)?(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?(?:\s*(?:-|–|—|to|through|thru)\s*(?:(\d{1,2})\/)?(\d{1,2})(?:\/(\d{2,4}))?)?(?!\d)/i;
+// "2025-2026", "2025-26" in a heading
+const SCHOOL_YEAR = /\b(20\d{2})\s*[-–—/]\s*(?:20)?(\d{2})\b/;
+
+const SCHOOL_KEYWORDS = /\b(no school|school closed|break|recess|holiday|vacation|first day|last day|minimum day|early (?:release|dismissal)|late start|conference|in-?service|staff development|professional development|teacher work|pupil free|non-?student|graduation|commencement|end of (?:quarter|semester|trimester|grading period)|back to school|open house|testing|memorial day|labor day|veterans day|thanksgiving|winter|spring|presidents|martin luther king|mlk)\b/i;
+
+interface TextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pull the text lines out of a PDF, page by page in reading order
+ */
+export async function extractPdfLines(data: Uint8Array): Promise<string[]> {
+  // Loaded lazily: pdf.js is large and only school PDF sources need it
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  // Only text is needed, so font-loading warnings (verbosity 1) are noise
+  const document = await getDocument({ data, useSystemFonts: false, isEvalSupported: false, verbosity: 0 }).promise;
+  const lines: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: TextItem[] = [];
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        items.push({ str: item.str, x: item.transform[4], y: item.transform[5], width: item.width, height: item.height || Math.abs(item.transform[3]) });
+      }
+      lines.push(...layoutLines(items));
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return lines;
+}
+
+/**
+ * Group text items into rows by baseline and split each row into columns wherever
+ * there's a wide horizontal gap, so a month grid beside an events list doesn't bleed
+ * into the list. A column holding only a date is rejoined with the text to its right.
+ */
+function layoutLines(items: TextItem[]): string[] {
+  const rows: TextItem[][] = [];
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    const tolerance = Math.max(2, item.height * 0.4);
+    if (row && Math.abs(row[0].y - item.y) <= tolerance) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.x - b.x);
+
+    const columns: string[] = [];
+    let current = '';
+    let previousEnd = -Infinity;
+    for (const item of row) {
+      const gap = item.x - previousEnd;
+      const columnGap = Math.max(18, item.height * 2.5);
+      if (current && gap > columnGap) {
+        columns.push(current);
+        current = '';
+      }
+      current += current && gap > item.height * 0.15 && !/\s$/.test(current) ? ` ${item.str}` : item.str;
+      previousEnd = item.x + item.width;
+    }
+    if (current) columns.push(current);
+
+    for (let i = 0; i < columns.length; i++) {
+      const column = columns[i].replace(/\s+/g, ' ').trim();
+      const next = columns[i + 1]?.replace(/\s+/g, ' ').trim();
+      if (next && isBareDate(column) && /[a-z]{3}/i.test(next)) {
+        lines.push(`${column} ${next}`);
+        i++;
+      } else if (column) {
+        lines.push(column);
+      }
+    }
+  }
+
+  return lines;
+}
+
+function isBareDate(text: string): boolean {
+  const match = text.match(MONTH_NAME_DATE) || text.match(NUMERIC_DATE);
+  return !!match && match[0].length >= text.replace(/[\s:–—-]+$/, '').length;
+}
+
+/**
+ * Turn calendar lines into dated entries. Years come from the line itself, else from
+ * the school year in the document's heading ("2025-2026": July-December in the first
+ * year, January-June in the second), else from the school year under way at `now`.
+ */
+export function parseCalendarLines(lines: string[], now = new Date()): PdfCalendarEntry[] {
+  const headingYear = lines.map(line => line.match(SCHOOL_YEAR)).find(Boolean);
+  const documentStartYear = headingYear ? Number(headingYear[1]) : null;
+  const startYear = documentStartYear ?? (now.getMonth() >= 6 ? now.getFullYear() : now.getFullYear() - 1);
+  const yearFor = (month: number) => (month >= 6 ? startYear : startYear + 1);
+
+  const entries: PdfCalendarEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const line of lines) {
+    const parsed = parseDateRange(line, yearFor);
+    if (!parsed) continue;
+
+    const title = cleanTitle(line.slice(parsed.length));
+    if (!title) continue;
+
+    let confidence = 0.5;
+    if (parsed.explicitYear) {
+      confidence += 0.2;
+    } else if (documentStartYear !== null) {
+      confidence += 0.15;
+    }
+    if (parsed.spelledMonth) confidence += 0.1;
+    if (SCHOOL_KEYWORDS.test(title)) confidence += 0.15;
+    if (title.length < 4 || title.length > 80) confidence -= 0.2;
+    // Another date in the title usually means two grid cells were read as one line
+    if (new RegExp(`\\b${MONTH}\\s+\\d{1,2}\\b|\\b\\d{1,2}/\\d{1,2}\\b`, 'i').test(title)) confidence -= 0.15;
+    if (dayCount(parsed.start, parsed.end) > 31) confidence -= 0.3;
+
+    confidence = Math.round(Math.min(0.99, Math.max(0.05, confidence)) * 100) / 100;
+    if (confidence < MIN_PDF_CONFIDENCE) continue;
+
+    const key = `${title.toLowerCase()}|${parsed.start}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    entries.push({ title, startDate: parsed.start, endDate: parsed.end, confidence, line });
+  }
+
+  return entries;
+}
+
+export async function parsePdfCalendar(data: Uint8Array, now = new Date()): Promise<PdfCalendarEntry[]> {
+  return parseCalendarLines(await extractPdfLines(data), now);
+}
+
+interface ParsedRange {
+  start: string;
+  end: string;
+  length: number; // characters of the line the dates took up
+  explicitYear: boolean;
+  spelledMonth: boolean;
+}
+
+function parseDateRange(line: string, yearFor: (month: number) => number): ParsedRange | null {
+  const named = line.match(MONTH_NAME_DATE);
+  if (named) {
+    const [, startMonthName, startDay, startYear, endMonthName, endDay, endYear] = named;
+    const startMonth = monthIndex(startMonthName);
+    const endMonth = endMonthName ? monthIndex(endMonthName) : startMonth;
+    return buildRange(named[0].length, startMonth, Number(startDay), startYear, endDay ? endMonth : null, endDay ? Number(endDay) : null, endYear, yearFor, true);
+  }
+
+  const numeric = line.match(NUMERIC_DATE);
+  if (numeric) {
+    const [, startMonth, startDay, startYear, endMonth, endDay, endYear] = numeric;
+    return buildRange(
+      numeric[0].length,
+      Number(startMonth) - 1,
+      Number(startDay),
+      startYear,
+      endDay ? (endMonth ? Number(endMonth) - 1 : Number(startMonth) - 1) : null,
+      endDay ? Number(endDay) : null,
+      endYear,
+      yearFor,
+      false
+    );
+  }
+
+  return null;
+}
+
+function buildRange(
+  length: number,
+  startMonth: number,
+  startDay: number,
+  startYearText: string | undefined,
+  endMonth: number | null,
+  endDay: number | null,
+  endYearText: string | undefined,
+  yearFor: (month: number) => number,
+  spelledMonth: boolean
+): ParsedRange | null {
+  const explicitYear = !!(startYearText || endYearText);
+  let startYear = startYearText ? fullYear(startYearText) : yearFor(startMonth);
+  if (!startYearText && endYearText && endMonth !== null) {
+    // "Dec 22 - Jan 2, 2026" only gives the year at the end
+    startYear = endMonth < startMonth ? fullYear(endYearText) - 1 : fullYear(endYearText);
+  }
+  const start = validDate(startYear, startMonth, startDay);
+  if (!start) return null;
+
+  let end = start;
+  if (endMonth !== null && endDay !== null) {
+    let endYear = endYearText ? fullYear(endYearText) : startYear;
+    // "Dec 22 - Jan 2" runs into the next year
+    if (!endYearText && (endMonth < startMonth || (endMonth === startMonth && endDay < startDay))) endYear++;
+    const parsedEnd = validDate(endYear, endMonth, endDay);
+    if (!parsedEnd || parsedEnd < start) return null;
+    end = parsedEnd;
+  }
+
+  return { start, end, length, explicitYear, spelledMonth };
+}
+
+function cleanTitle(rest: string): string | null {
+  const title = rest
+    .replace(/^\s*\((?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?\)\s*/i, '')
+    .replace(/^[\s:|•·*–—-]+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Needs real words, not another run of grid numbers or weekday initials
+  if (!/[a-z]{3}/i.test(title) || /^(?:[smtwf]\s+){3,}/i.test(title)) return null;
+  return title;
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+function fullYear(text: string): number {
+  const year = Number(text);
+  return year < 100 ? 2000 + year : year;
+}
+
+function validDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month, day));
+  if (month < 0 || date.getUTCMonth() !== month || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function dayCount(start: string, end: string): number {
+  return (Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000) + 1;
+}
@@ -0,0 +1,75 @@
+import type { InsertEvent } from '@shared/schema';
+
+/**
+ * Reads what an event costs from published text - "$5 members / $10 general", "Free with
+ * registration", "Admission: $12; kids under 5 free" - or from amounts a platform API
+ * already gives. Only dollar amounts count, so dates, times and ages in the same text
+ * are never mistaken for prices.
+ */
+
+export interface PriceInfo {
+  min: number | null; // lowest price in dollars; 0 when some tickets are free
+  max: number | null;
+  free: boolean | null; // null when the text doesn't say
+  label: string | null; // the published cost text, when it came from a dedicated field
+}
+
+export const UNKNOWN_PRICE: PriceInfo = { min: null, max: null, free: null, label: null };
+
+const AMOUNT_PATTERN = /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{2}))?|\b(\d+(?:\.\d{2})?)\s*(?:dollars|usd)\b/gi;
+
+// "free" that describes the event rather than the parking or the menu
+const FREE_PATTERN = /(?<![-\w])free\b(?!\s*(?:parking|throws?|play|skate|swim|wi-?fi|refills?|shuttle|samples?|gifts?|t-?shirts?|giveaways?|will|-))|\bno (?:charge|cost|admission)\b|\bcomplimentary (?:admission|entry)\b|\$0(?:\.00)?\b/i;
+
+/**
+ * The price range and free flag in a description or cost field
+ */
+export function parsePriceText(text: string | null | undefined, label: string | null = null): PriceInfo {
+  if (!text) return { ...UNKNOWN_PRICE, label };
+
+  const amounts: number[] = [];
+  for (const match of Array.from(text.matchAll(AMOUNT_PATTERN))) {
+    const amount = match[3] !== undefined
+      ? Number(match[3])
+      : Number(`${match[1].replace(/,/g, '')}.${match[2] ?? '00'}`);
+    if (isFinite(amount)) amounts.push(amount);
+  }
+  const mentionsFree = FREE_PATTERN.test(text);
+
+  const positive = amounts.filter(amount => amount > 0);
+  if (positive.length === 0) {
+    return mentionsFree ? { min: 0, max: 0, free: true, label } : { ...UNKNOWN_PRICE, label };
+  }
+  // "Free for members, $10 general" has free tickets but isn't a free event
+  return {
+    min: mentionsFree || amounts.includes(0) ? 0 : Math.min(...positive),
+    max: Math.max(...positive),
+    free: false,
+    label
+  };
+}
+
+/**
+ * A price from amounts a platform lists, with its own free flag when it has one
+ */
+export function priceFromAmounts(amounts: Array<number | null | undefined>, free: boolean | null = null, label: string | null = null): PriceInfo {
+  const known = amounts.filter((amount): amount is number => typeof amount === 'number' && isFinite(amount) && amount >= 0);
+  if (known.length === 0) return free ? { min: 0, max: 0, free: true, label } : { ...UNKNOWN_PRICE, free, label };
+
+  const max = Math.max(...known);
+  return { min: Math.min(...known), max, free: free ?? max === 0, label };
+}
+
+/**
+ * The event columns for a price. Sources whose events are nearly always free, such as
+ * libraries and public meetings, count an unknown price as free.
+ */
+export function priceColumns(price: PriceInfo, unknownIsFree: boolean): Pick<InsertEvent, 'isFree' | 'priceMin' | 'priceMax' | 'priceLabel'> {
+  const free = price.free ?? (price.min === null ? unknownIsFree : price.max === 0);
+  return {
+    isFree: free ? 'true' : 'false',
+    priceMin: price.min,
+    priceMax: price.max,
+    priceLabel: price.label
+  };
+}
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import * as cheerio from 'cheerio';
+import {
+  meetingDates,
+  meetingDays,
+  parseActiveNetActivities,
+  parseCivicRecSessions,
+  parseRecDeskPrograms
+} from './recreation-platforms';
+
+// Saved sample responses, so the adapters are checked without reaching the platforms
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/recreation/${name}`, import.meta.url), 'utf8');
+
+test('ActiveNet activities map dates, ages, fees and registration', () => {
+  const records = parseActiveNetActivities(fixture('activenet-activities.json'), 'https://anc.apm.activecommunities.com/springfieldparks/rest/activities/list');
+  assert.equal(records.length, 4);
+
+  const [basketball, swim, hike, pickleball] = records;
+  assert.deepEqual(
+    [basketball.firstDate, basketball.lastDate, basketball.days, basketball.startTime, basketball.endTime],
+    ['2026-10-24', '2026-11-21', 'Sat', '09:00:00', '10:00:00']
+  );
+  assert.deepEqual([basketball.ageMin, basketball.ageMax, basketball.ageLabel], [8, 10, '8 yrs - 10 yrs']);
+  assert.deepEqual([basketball.fee, basketball.feeLabel], [65, '$65.00 Resident / $80.00 Non-resident']);
+  assert.deepEqual(basketball.registration, {
+    required: true,
+    url: 'https://anc.apm.activecommunities.com/springfieldparks/activity/search/enroll/15234',
+    status: 'open'
+  });
+
+  assert.deepEqual([swim.ageMin, swim.ageMax], [0, 3]);
+  assert.equal(swim.registration?.status, 'waitlist');
+  assert.deepEqual([hike.lastDate, hike.fee], [null, 0]);
+  assert.deepEqual([pickleball.ageMin, pickleball.ageMax, pickleball.cancelled], [55, null, true]);
+  assert.equal(pickleball.registration?.status, 'closed');
+});
+
+test('RecDesk programs map dates, fees and registration', () => {
+  const records = parseRecDeskPrograms(cheerio.load(fixture('recdesk-programs.html')), 'https://springfield.recdesk.com/Community/Program');
+  assert.equal(records.length, 3);
+
+  const [pottery, camp, bingo] = records;
+  assert.deepEqual(
+    [pottery.firstDate, pottery.lastDate, pottery.days, pottery.startTime, pottery.endTime],
+    ['2026-10-27', '2026-12-01', 'Tue', '18:30:00', '20:30:00']
+  );
+  assert.deepEqual([pottery.ageLabel, pottery.fee, pottery.activityNumber], ['16+', 95, 'ART-301']);
+  assert.equal(pottery.registration?.url, 'https://springfield.recdesk.com/Community/Program/Register?programId=1842');
+  assert.deepEqual([camp.ageLabel, camp.fee, camp.registration?.status], ['6 - 12', 120, 'waitlist']);
+  assert.deepEqual([bingo.lastDate, bingo.fee, bingo.feeLabel], [null, 0, 'Free']);
+});
+
+test('CivicRec sessions map dates, ages, fees and registration', () => {
+  const records = parseCivicRecSessions(fixture('civicrec-sessions.json'), 'https://secure.rec1.com/IL/maplewood-parks/catalog');
+  assert.equal(records.length, 3);
+
+  const [tumbling, openGym, watercolor] = records;
+  assert.deepEqual(
+    [tumbling.firstDate, tumbling.lastDate, tumbling.days, tumbling.startTime],
+    ['2026-11-02', '2026-12-07', 'Mon', '10:00:00']
+  );
+  assert.deepEqual([tumbling.ageMin, tumbling.ageMax, tumbling.fee], [3, 5, 48]);
+  assert.equal(tumbling.registration?.status, 'waitlist');
+  assert.deepEqual([openGym.ageMin, openGym.ageMax, openGym.fee], [13, 17, 0]);
+  assert.deepEqual([watercolor.ageMin, watercolor.ageMax, watercolor.registration?.status], [18, null, 'closed']);
+});
+
+test('meeting days read the schedules platforms publish', () => {
+  assert.deepEqual(meetingDays('Mon, Wed'), [1, 3]);
+  assert.deepEqual(meetingDays('Tu/Th'), [2, 4]);
+  assert.deepEqual(meetingDays('Mon-Fri'), [1, 2, 3, 4, 5]);
+  assert.deepEqual(meetingDays('Weekdays'), [1, 2, 3, 4, 5]);
+  assert.equal(meetingDays('TBA'), null);
+});
+
+test('a multi-week class meets on each listed day from today through its last date', () => {
+  const [basketball] = parseActiveNetActivities(fixture('activenet-activities.json'), 'https://anc.apm.activecommunities.com/springfieldparks/rest/activities/list');
+  assert.deepEqual(meetingDates(basketball, '2026-11-01', '2027-01-31'), ['2026-11-07', '2026-11-14', '2026-11-21']);
+  assert.deepEqual(meetingDates(basketball, '2026-11-22', '2027-01-31'), []);
+});
@@ -0,0 +1,403 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Registration } from '@shared/schema';
+import { looksLikeHtml, looksLikeJson, type FeedResponse } from './feed-parsers';
+import { parseTimeRange } from './scraping-rules';
+import { collapseWhitespace, htmlToText, normalizeDateText, parsePrice, resolveUrl } from './structured-data';
+
+/**
+ * Registration systems parks & recreation departments publish their classes, camps and
+ * leagues through: ActiveNet (Active Network), RecDesk and CivicRec (CivicPlus, served
+ * from rec1.com). Each is read from its public activity listing - ActiveNet's and
+ * CivicRec's JSON, RecDesk's program list page - and an activity becomes one event at
+ * its first meeting, with the rest of its schedule, ages, fee and registration link.
+ *
+ * These work on response bodies; saved sample responses are in `server/fixtures/recreation`.
+ */
+
+export type RecreationPlatform = 'activenet' | 'recdesk' | 'civicrec';
+
+export interface RecreationActivityRecord {
+  id: string;
+  title: string;
+  description: string;
+  activityNumber: string | null; // the course or session code registrants search by
+  firstDate: string; // YYYY-MM-DD
+  lastDate: string | null; // YYYY-MM-DD, inclusive; null when the activity meets once
+  days: string | null; // meeting days as published, e.g. "Mon, Wed"
+  startTime: string | null; // HH:mm:ss wall-clock
+  endTime: string | null;
+  location: string | null;
+  ageLabel: string | null; // as published, e.g. "8 yrs - 10 yrs"
+  ageMin: number | null; // explicit ages from the platform, when it gives them as numbers
+  ageMax: number | null;
+  fee: number | null; // lowest published fee in dollars, 0 when free
+  feeLabel: string | null; // as published, e.g. "$45.00 Resident / $60.00 Non-resident"
+  categories: string[];
+  registration: Registration | null;
+  url: string | null;
+  imageUrl: string | null;
+  cancelled: boolean;
+}
+
+export interface RecreationPlatformLink {
+  platform: RecreationPlatform;
+  site: string; // the department's account on the platform, e.g. "springfieldparks"
+  url: string; // canonical activity listing for the source
+}
+
+// Path segments on the platforms' shared hosts that aren't a department's account
+const NON_SITE_PATHS = new Set(['static', 'assets', 'images', 'help', 'support', 'api']);
+const NON_SITE_HOSTS = new Set(['www', 'api', 'static', 'cdn', 'help', 'support']);
+
+/**
+ * Recognise a link into a department's ActiveNet, RecDesk or CivicRec site
+ */
+export function detectRecreationPlatform(url: string): RecreationPlatformLink | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.startsWith('//') ? `https:${url}` : url);
+  } catch {
+    return null;
+  }
+  const host = parsed.hostname.toLowerCase();
+
+  const activeNet = /^(?:anc\.)?apm\.activecommunities\.com$/.test(host) && parsed.pathname.match(/^\/([\w-]+)/);
+  if (activeNet && !NON_SITE_PATHS.has(activeNet[1].toLowerCase())) {
+    const site = activeNet[1].toLowerCase();
+    return { platform: 'activenet', site, url: `https://anc.apm.activecommunities.com/${site}/activity/search` };
+  }
+
+  const recDesk = host.match(/^([\w-]+)\.recdesk\.com$/);
+  if (recDesk && !NON_SITE_HOSTS.has(recDesk[1])) {
+    return { platform: 'recdesk', site: recDesk[1], url: `https://${recDesk[1]}.recdesk.com/Community/Program` };
+  }
+
+  // rec1.com accounts are "/<state>/<department>", e.g. /IL/springfield-parks
+  const civicRec = host === 'secure.rec1.com' && parsed.pathname.match(/^\/([a-z]{2})\/([\w-]+)/i);
+  if (civicRec) {
+    const site = `${civicRec[1].toUpperCase()}/${civicRec[2].toLowerCase()}`;
+    return { platform: 'civicrec', site, url: `https://secure.rec1.com/${site}/catalog` };
+  }
+
+  return null;
+}
+
+/**
+ * Registration systems linked or framed on a page ("Register for programs")
+ */
+export function findRecreationPlatformLinks($: CheerioAPI, pageUrl: string): RecreationPlatformLink[] {
+  const found = new Map<string, RecreationPlatformLink>();
+
+  $('a[href], iframe[src]').each((_, element) => {
+    const $element = $(element);
+    const url = resolveUrl($element.attr('href') || $element.attr('src') || null, pageUrl);
+    const link = url ? detectRecreationPlatform(url) : null;
+    if (link && !found.has(link.url)) found.set(link.url, link);
+  });
+
+  return Array.from(found.values());
+}
+
+/**
+ * The listing a platform's activity search loads, for activities from `from` onwards.
+ * Listing URLs that are already set on a source are used as they are.
+ */
+export function recreationActivitiesUrl(platform: RecreationPlatform, feedUrl: string, from: Date): string {
+  const link = detectRecreationPlatform(feedUrl);
+  if (!link || link.platform !== platform) return feedUrl;
+
+  const day = `${from.getFullYear()}-${String(from.getMonth() + 1).padStart(2, '0')}-${String(from.getDate()).padStart(2, '0')}`;
+  switch (platform) {
+    case 'activenet':
+      return /\/rest\/activities\/list/.test(feedUrl)
+        ? feedUrl
+        : `https://anc.apm.activecommunities.com/${link.site}/rest/activities/list?locale=en-US&date_after=${day}&page_size=100&page_number=1`;
+    case 'recdesk':
+      return /\/Community\/Program/i.test(feedUrl) ? feedUrl : link.url;
+    case 'civicrec':
+      return /\/catalog\/getSessions/i.test(feedUrl) ? feedUrl : `https://secure.rec1.com/${link.site}/catalog/getSessions?startDate=${day}`;
+  }
+}
+
+export function looksLikeActiveNetActivities(response: FeedResponse): boolean {
+  return looksLikeJson(response) && /"activity_items"\s*:/.test(response.body);
+}
+
+export function looksLikeRecDeskPrograms(response: FeedResponse): boolean {
+  return looksLikeHtml(response) && /Program\/Detail\?programId=/i.test(response.body);
+}
+
+export function looksLikeCivicRecSessions(response: FeedResponse): boolean {
+  return looksLikeJson(response) && /"sessions"\s*:\s*\[/.test(response.body.slice(0, 512)) && /"(?:ageRange|spotsAvailable|groupName)"\s*:/.test(response.body);
+}
+
+/**
+ * Activities from ActiveNet's activity search listing (`/rest/activities/list`)
+ */
+export function parseActiveNetActivities(body: string, pageUrl: string): RecreationActivityRecord[] {
+  const data = JSON.parse(body);
+  const items: any[] = data?.body?.activity_items ?? data?.activity_items ?? [];
+  const records: RecreationActivityRecord[] = [];
+
+  for (const item of items) {
+    const title = htmlToText(item?.name);
+    const [rangeStart, rangeEnd] = dateRange(item?.date_range);
+    const firstDate = calendarDate(item?.date_range_start) ?? rangeStart;
+    if (!title || !firstDate || item.id == null) continue;
+
+    const times = parseTimeRange(String(item.time_range ?? ''));
+    const lastDate = calendarDate(item.date_range_end) ?? rangeEnd;
+    const feeLabel = htmlToText(item.fee?.label ?? item.fee);
+    const actionLabel = collapseWhitespace(item.action_link?.label ?? item.enroll_now?.label) ?? '';
+    const url = resolveUrl(item.detail_url || null, pageUrl);
+    // ActiveNet uses 0 for "no minimum" and "no maximum"
+    const ageMin = Number(item.age_min_year) > 0 ? Number(item.age_min_year) : null;
+    const ageMax = Number(item.age_max_year) > 0 ? Number(item.age_max_year) : null;
+
+    records.push({
+      id: String(item.id),
+      title,
+      description: htmlToText(item.desc) ?? htmlToText(item.description) ?? '',
+      activityNumber: collapseWhitespace(item.number != null ? String(item.number) : undefined),
+      firstDate,
+      lastDate: lastDate && lastDate !== firstDate ? lastDate : null,
+      days: collapseWhitespace(item.days_of_week),
+      startTime: times?.start ?? null,
+      endTime: times?.end ?? null,
+      location: htmlToText(item.location?.label ?? item.location),
+      ageLabel: htmlToText(item.ages),
+      ageMin: ageMin ?? (ageMax !== null ? 0 : null),
+      ageMax,
+      fee: feeAmount(feeLabel),
+      feeLabel,
+      categories: [htmlToText(item.category), htmlToText(item.sub_category)].filter((name): name is string => !!name),
+      registration: {
+        required: true,
+        url: resolveUrl(item.action_link?.href || null, pageUrl) ?? url,
+        status: registrationStatus(actionLabel, item.openings)
+      },
+      url,
+      imageUrl: resolveUrl(item.image_url || null, pageUrl),
+      cancelled: /cancel+ed/i.test(`${item.status ?? ''} ${actionLabel} ${title}`)
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Programs from a RecDesk program list page (`/Community/Program`)
+ */
+export function parseRecDeskPrograms($: CheerioAPI, pageUrl: string): RecreationActivityRecord[] {
+  const records: RecreationActivityRecord[] = [];
+
+  $('.ProgramListing, [data-program-id]').each((_, element) => {
+    const $program = $(element);
+    const $title = $program.find('.ProgramName a, .ProgramName').first();
+    const title = collapseWhitespace($title.text());
+    const [firstDate, lastDate] = dateRange(fieldText($, $program.find('.ProgramDates')));
+    if (!title || !firstDate) return;
+
+    const href = $title.is('a') ? $title.attr('href') : $title.find('a').attr('href');
+    const url = resolveUrl(href ?? null, pageUrl);
+    const id = $program.attr('data-program-id') || href?.match(/programId=(\d+)/i)?.[1] || `${title}|${firstDate}`;
+    const times = parseTimeRange(fieldText($, $program.find('.ProgramTimes')) ?? '');
+    const ageLabel = fieldText($, $program.find('.ProgramAges'));
+    const feeLabel = fieldText($, $program.find('.ProgramFee'));
+    const $register = $program.find('a.RegisterButton, a[href*="/Register"]').first();
+    const statusText = [collapseWhitespace($program.find('.ProgramStatus').text()), collapseWhitespace($register.text())].filter(Boolean).join(' ');
+
+    records.push({
+      id,
+      title,
+      description: collapseWhitespace($program.find('.ProgramDescription').first().text()) ?? '',
+      activityNumber: fieldText($, $program.find('.ProgramNumber')),
+      firstDate,
+      lastDate: lastDate && lastDate !== firstDate ? lastDate : null,
+      days: fieldText($, $program.find('.ProgramDays')),
+      startTime: times?.start ?? null,
+      endTime: times?.end ?? null,
+      location: fieldText($, $program.find('.ProgramLocation')),
+      ageLabel,
+      ageMin: null,
+      ageMax: null,
+      fee: feeAmount(feeLabel),
+      feeLabel,
+      categories: (fieldText($, $program.find('.ProgramType')) ?? '').split(/\s*,\s*/).filter(Boolean),
+      registration: {
+        required: true,
+        url: resolveUrl($register.attr('href') ?? null, pageUrl) ?? url,
+        status: registrationStatus(statusText, statusText.match(/openings?:?\s*(\d+)/i)?.[1])
+      },
+      url,
+      imageUrl: resolveUrl($program.find('img').first().attr('src') ?? null, pageUrl),
+      cancelled: /\bcancel+ed\b/i.test(`${statusText} ${title}`)
+    });
+  });
+
+  return records;
+}
+
+/**
+ * Sessions from a CivicRec catalog (`/catalog/getSessions`)
+ */
+export function parseCivicRecSessions(body: string, pageUrl: string): RecreationActivityRecord[] {
+  const data = JSON.parse(body);
+  const items: any[] = Array.isArray(data) ? data : data?.sessions ?? [];
+  const records: RecreationActivityRecord[] = [];
+
+  for (const item of items) {
+    const title = htmlToText(item?.name);
+    const firstDate = calendarDate(item?.startDate);
+    if (!title || !firstDate || item.id == null) continue;
+
+    const lastDate = calendarDate(item.endDate);
+    const times = parseTimeRange([item.startTime, item.endTime].filter(Boolean).join(' - '));
+    const feeLabel = htmlToText(item.price ?? item.fee);
+    const url = resolveUrl(item.url || null, pageUrl);
+    const spots = item.spotsAvailable;
+    const status = item.registrationStatus === 'waitlist' || (Number(spots) === 0 && truthy(item.waitlistAvailable))
+      ? 'waitlist'
+      : registrationStatus(String(item.registrationStatus ?? ''), spots);
+
+    records.push({
+      id: String(item.id),
+      title,
+      description: htmlToText(item.description) ?? '',
+      activityNumber: collapseWhitespace(item.code != null ? String(item.code) : undefined),
+      firstDate,
+      lastDate: lastDate && lastDate !== firstDate ? lastDate : null,
+      days: collapseWhitespace(Array.isArray(item.days) ? item.days.join(', ') : item.days),
+      startTime: times?.start ?? null,
+      endTime: times?.end ?? null,
+      location: htmlToText(item.location?.name ?? item.location),
+      ageLabel: htmlToText(item.ageRange),
+      ageMin: typeof item.minAge === 'number' ? item.minAge : null,
+      ageMax: typeof item.maxAge === 'number' ? item.maxAge : null,
+      fee: feeAmount(feeLabel),
+      feeLabel,
+      categories: [htmlToText(item.groupName), htmlToText(item.category)].filter((name): name is string => !!name),
+      registration: { required: true, url, status },
+      url,
+      imageUrl: resolveUrl(item.imageUrl || null, pageUrl),
+      cancelled: truthy(item.cancelled) || /cancel+ed/i.test(`${item.registrationStatus ?? ''} ${title}`)
+    });
+  }
+
+  return records;
+}
+
+/**
+ * When and where an activity meets, for the event description:
+ * "Sat, Oct 24 - Nov 21, 2026"
+ */
+export function scheduleSummary(record: RecreationActivityRecord): string | null {
+  if (!record.lastDate) return null;
+
+  const format = (date: string, withYear: boolean) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    day: 'numeric',
+    ...(withYear ? { year: 'numeric' } : {})
+  });
+  const dates = `${format(record.firstDate, false)} - ${format(record.lastDate, true)}`;
+  return record.days ? `${record.days}, ${dates}` : dates;
+}
+
+// Day names as the platforms abbreviate them, indexed like Date.getUTCDay()
+const DAY_PATTERNS = [/^su(?:n(?:day)?)?$/, /^m(?:o(?:n(?:day)?)?)?$/, /^tu(?:e(?:s(?:day)?)?)?$/, /^w(?:e(?:d(?:nesday)?)?)?$/, /^th(?:u(?:r(?:s(?:day)?)?)?)?$/, /^f(?:r(?:i(?:day)?)?)?$/, /^sa(?:t(?:urday)?)?$/];
+
+/**
+ * The weekdays in a published schedule: "Mon, Wed", "Tu/Th", "Mon-Fri", "Weekdays", "Daily".
+ * Null when none can be read.
+ */
+export function meetingDays(days: string | null): number[] | null {
+  if (!days) return null;
+  const text = days.toLowerCase();
+  if (/\b(?:daily|every ?day)\b/.test(text)) return [0, 1, 2, 3, 4, 5, 6];
+  if (/\bweekdays\b/.test(text)) return [1, 2, 3, 4, 5];
+  if (/\bweekends\b/.test(text)) return [0, 6];
+
+  const dayIndex = (token: string) => DAY_PATTERNS.findIndex(pattern => pattern.test(token.replace(/\./g, '')));
+  const found = new Set<number>();
+  for (const part of text.split(/[,/&;]|\band\b/)) {
+    const range = part.trim().match(/^([a-z.]+)\s*(?:-|–|to)\s*([a-z.]+)$/);
+    if (range) {
+      const [start, end] = [dayIndex(range[1]), dayIndex(range[2])];
+      if (start === -1 || end === -1) continue;
+      for (let day = start; ; day = (day + 1) % 7) {
+        found.add(day);
+        if (day === end) break;
+      }
+      continue;
+    }
+    for (const token of part.trim().split(/\s+/)) {
+      const day = dayIndex(token);
+      if (day !== -1) found.add(day);
+    }
+  }
+  return found.size > 0 ? Array.from(found).sort() : null;
+}
+
+/**
+ * The dates an activity meets between `from` and `until` (YYYY-MM-DD, inclusive): every
+ * listed weekday from its first to its last date, or the first date's weekday when the
+ * schedule doesn't name any
+ */
+export function meetingDates(record: RecreationActivityRecord, from: string, until: string): string[] {
+  if (!record.lastDate || record.lastDate <= record.firstDate) {
+    return record.firstDate >= from && record.firstDate <= until ? [record.firstDate] : [];
+  }
+
+  const first = new Date(`${record.firstDate}T00:00:00Z`);
+  const days = meetingDays(record.days) ?? [first.getUTCDay()];
+  const start = record.firstDate > from ? record.firstDate : from;
+  const end = record.lastDate < until ? record.lastDate : until;
+
+  const dates: string[] = [];
+  for (let date = new Date(`${start}T00:00:00Z`); date.toISOString().slice(0, 10) <= end; date.setUTCDate(date.getUTCDate() + 1)) {
+    if (days.includes(date.getUTCDay())) dates.push(date.toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+// "Openings: 0", "Full", "Waitlist", "Registration closed"
+function registrationStatus(text: string, openings: unknown): Registration['status'] {
+  if (/wait ?list/i.test(text)) return 'waitlist';
+  if (/\bfull\b|sold out/i.test(text) || (openings !== undefined && openings !== null && openings !== '' && Number(openings) === 0)) return 'full';
+  if (/closed|ended|not (?:yet )?open|unavailable/i.test(text)) return 'closed';
+  return 'open';
+}
+
+// Lowest fee in a label such as "$45.00 Resident / $60.00 Non-resident", 0 for "Free"
+function feeAmount(label: string | null): number | null {
+  if (!label) return null;
+  if (/\bfree\b|\bno (?:fee|charge)\b/i.test(label)) return 0;
+  const amounts = (label.replace(/,/g, '').match(/\$\s*\d+(?:\.\d+)?/g) ?? [])
+    .map(amount => parsePrice(amount))
+    .filter((amount): amount is number => amount !== null);
+  return amounts.length > 0 ? Math.min(...amounts) : parsePrice(label);
+}
+
+// "10/24/2026 to 11/21/2026", "Oct 24, 2026 - Nov 21, 2026", or a single date
+function dateRange(text: unknown): [string | null, string | null] {
+  if (typeof text !== 'string' || !text.trim()) return [null, null];
+  const [first, last] = text.split(/\s+(?:to|through|-|–)\s+/i);
+  return [calendarDate(first), calendarDate(last)];
+}
+
+function calendarDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const normalized = normalizeDateText(value.trim());
+  return normalized && !normalized.startsWith('T') ? normalized.slice(0, 10) : null;
+}
+
+// "Ages: 16+" - the field label is part of the element's text
+function fieldText($: CheerioAPI, $element: Cheerio<any>): string | null {
+  const text = collapseWhitespace($element.first().text());
+  return text ? text.replace(/^[a-z][a-z #]{1,19}:\s*/i, '') || null : null;
+}
+
+function truthy(value: unknown): boolean {
+  return value === true || value === 1 || (typeof value === 'string' && /^(?:1|true|yes)$/i.test(value.trim()));
+}
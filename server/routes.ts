@@ -1,12 +1,14 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { eventFilterSchema, insertEventSchema, citySearchSchema } from "@shared/schema";
+import { eventFilterSchema, insertEventSchema, citySearchSchema, scrapingRulesSchema } from "@shared/schema";
 import { WebsiteValidator } from "./website-validator";
 import { dataCollector } from "./data-collector";
 import { calendarCollector } from "./calendar-collector";
 import { feedDiscoverer } from './location-feed-discoverer';
 import { cityDiscoverer } from './us-cities-database';
+import { findGoogleCalendarEmbeds, type GoogleCalendarEmbed } from './google-calendar';
+import { categoryRulesPath } from './categorizer';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import * as fs from 'fs';
@@ -84,6 +86,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get change history for a single event
+  app.get("/api/events/:id/history", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const event = await storage.getEvent(id);
+
+      if (!event) {
+        res.status(404).json({ message: "Event not found" });
+        return;
+      }
+
+      const revisions = await storage.getEventRevisions(id);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch event history" });
+    }
+  });
+
+  // Split a wrongly merged listing from its canonical event, or every listing from a canonical event
+  app.post("/api/events/:id/unmerge", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const event = await storage.getEvent(id);
+
+      if (!event) {
+        res.status(404).json({ message: "Event not found" });
+        return;
+      }
+
+      if (!event.mergedInto && !event.alsoListedBy?.length) {
+        res.status(400).json({ message: "Event is not merged with any other listing" });
+        return;
+      }
+
+      const separated = await dataCollector.unmergeEvent(event);
+      res.json({ separated });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to un-merge event" });
+    }
+  });
+
   // Create new event
   app.post("/api/events", async (req, res) => {
     try {
@@ -172,7 +215,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               console.log(`Starting event synchronization for specific locations: ${locations.join(', ')}`);
 
               // Get active calendar sources that match the specified locations
-              const allSources = calendarCollector.getSources();
+              const allSources = await calendarCollector.getSources();
               const relevantSources = allSources.filter(source => {
                   const sourceLocation = `${source.city}, ${source.state}`;
                   return source.isActive && locations.some(location => 
@@ -196,22 +239,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               for (const source of relevantSources) {
                   try {
                       console.log(`Syncing events from ${source.name} (${source.city}, ${source.state})`);
-                      const events = await calendarCollector.collectFromSource(source);
-
-                      // Add events to storage (check for duplicates)
-                      const existingEvents = await storage.getAllEvents();
-                      const existingEventKeys = new Set(existingEvents.map(event => 
-                          `${event.title}::${event.location}::${event.organizer}::${event.source}::${event.startDate?.toDateString()}`
-                      ));
-
-                      for (const event of events) {
-                          const key = `${event.title}::${event.location}::${event.organizer}::${event.source}::${event.startDate?.toDateString()}`;
-                          if (!existingEventKeys.has(key)) {
-                              await storage.createEvent(event);
-                              syncedCount++;
-                              console.log(`Storage: Created event ${event.title}. Total synced: ${syncedCount}`);
-                          }
-                      }
+                      syncedCount += await dataCollector.syncSource(source);
+                      console.log(`Synced events from ${source.name}. Total new: ${syncedCount}`);
                   } catch (sourceError) {
                       console.error(`Failed to sync from ${source.name}:`, sourceError);
                   }
@@ -242,7 +271,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Calendar feed sources management
   app.get("/api/calendar-sources", async (req, res) => {
     try {
-      const sources = calendarCollector.getSources();
+      const sources = await calendarCollector.getSources();
       const activeSources = sources.filter(s => s.isActive);
 
       res.json({
@@ -260,10 +289,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
+  // Category and tag counts per source, for tuning data/category-rules.json
+  app.get("/api/calendar-sources/category-distribution", async (req, res) => {
+    try {
+      const [distribution, sources] = await Promise.all([storage.getCategoryDistribution(), calendarCollector.getSources()]);
+      const sourceNames = new Map(sources.map(source => [source.id, source.name]));
+
+      res.json({
+        rulesPath: categoryRulesPath(),
+        sources: distribution.map(entry => ({ ...entry, sourceName: sourceNames.get(entry.source) ?? null }))
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch category distribution" });
+    }
+  });
+
   app.get("/api/calendar-sources/by-state/:state", async (req, res) => {
     try {
       const { state } = req.params;
-      const sources = calendarCollector.getSourcesByState(state.toUpperCase());
+      const sources = await calendarCollector.getSourcesByState(state.toUpperCase());
       res.json(sources);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch sources by state" });
@@ -273,7 +317,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/calendar-sources/by-type/:type", async (req, res) => {
     try {
       const { type } = req.params;
-      const sources = calendarCollector.getSourcesByType(type);
+      const sources = await calendarCollector.getSourcesByType(type);
       res.json(sources);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch sources by type" });
@@ -283,13 +327,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/calendar-sources/:id/toggle", async (req, res) => {
     try {
       const { id } = req.params;
-      const isActive = calendarCollector.toggleSource(id);
+      const isActive = await calendarCollector.toggleSource(id);
       res.json({ sourceId: id, isActive });
     } catch (error) {
       res.status(500).json({ message: "Failed to toggle calendar source" });
     }
   });
 
+  // Attach a scraping rule set to a source, or clear it with { rules: null }
+  app.put("/api/calendar-sources/:id/scraping-rules", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsed = scrapingRulesSchema.nullable().safeParse(req.body?.rules ?? null);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid scraping rules", errors: parsed.error.flatten() });
+      }
+
+      const updated = await calendarCollector.setScrapingRules(id, parsed.data);
+      if (!updated) {
+        return res.status(404).json({ message: "Calendar source not found" });
+      }
+
+      res.json({ sourceId: id, scrapingRules: parsed.data });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update scraping rules" });
+    }
+  });
+
+  // Try a scraping rule set against a live page and preview the events it would produce
+  app.post("/api/scraping-rules/preview", async (req, res) => {
+    try {
+      const { url, rules, city, state } = req.body ?? {};
+      if (!url || typeof url !== "string") {
+        return res.status(400).json({ message: "url is required" });
+      }
+
+      const parsed = scrapingRulesSchema.safeParse(rules);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid scraping rules", errors: parsed.error.flatten() });
+      }
+
+      console.log(`🧪 Previewing scraping rules against ${url}`);
+      const result = await calendarCollector.previewScrapingRules(url, parsed.data, city, state);
+      res.json({ url, rules: parsed.data, eventCount: result.events.length, ...result });
+    } catch (error) {
+      console.error("Scraping rule preview error:", error);
+      res.status(500).json({ message: "Failed to preview scraping rules", error: String(error) });
+    }
+  });
+
   // Congressional district routes
   app.get("/api/congressional-districts", async (req, res) => {
     try {
@@ -560,6 +646,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       let totalDiscovered = 0;
       let totalAdded = 0;
+      let syncedCount = 0;
       const results = [];
 
       // Discover all types of feeds for each city in the district
@@ -581,28 +668,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           // Auto-add discovered feeds and immediately sync them
           for (const feed of discoveredFeeds) {
-            const success = calendarCollector.addSource(feed.source);
+            const success = await calendarCollector.addSource(feed.source);
             if (success) {
               totalAdded++;
 
               // Immediately sync events from this new source
               try {
                 console.log(`Immediately syncing events from newly added source: ${feed.source.name}`);
-                const events = await calendarCollector.collectFromSource(feed.source);
-
-                // Add events to storage with duplicate checking
-                const existingEvents = await storage.getAllEvents();
-                const existingEventKeys = new Set(existingEvents.map(event => 
-                    `${event.title}::${event.location}::${event.organizer}::${event.source}::${event.startDate?.toDateString()}`
-                ));
-
-                for (const event of events) {
-                    const key = `${event.title}::${event.location}::${event.organizer}::${event.source}::${event.startDate?.toDateString()}`;
-                    if (!existingEventKeys.has(key)) {
-                        await storage.createEvent(event);
-                        syncedCount++;
-                    }
-                }
+                syncedCount += await dataCollector.syncSource(feed.source);
               } catch (syncError) {
                 console.error(`Failed to immediately sync from ${feed.source.name}:`, syncError);
               }
@@ -643,11 +716,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Events are now automatically synced immediately after feed discovery above
       const cityLocations = cities.map(city => `${city.name}, ${state}`);
 
-      // Initialize syncedCount if not already defined
-      if (typeof syncedCount === 'undefined') {
-        syncedCount = 0;
-      }
-
       res.json({
         district: `${state}-${district}`,
         citiesProcessed: cities.length,
@@ -679,7 +747,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Add discovered feeds to the calendar collector automatically
       for (const discoveredFeed of discoveredFeeds) {
         try {
-          const added = calendarCollector.addSource(discoveredFeed.source);
+          const added = await calendarCollector.addSource(discoveredFeed.source);
           console.log(`Auto-adding discovered feed: ${discoveredFeed.source.name} - Success: ${added}`);
           if (!added) {
             console.log(`Failed to add feed: ${discoveredFeed.source.name} - may already exist`);
@@ -852,7 +920,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       for (const source of sources) {
         try {
           // Check if source already exists
-          const existingSource = calendarCollector.getSources().find(s => 
+          const existingSource = (await calendarCollector.getSources()).find(s => 
             s.feedUrl === source.feedUrl || s.id === source.id || 
             (s.name === source.name && s.city === source.city && s.state === source.state)
           );
@@ -924,7 +992,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check if source already exists before attempting to add
-      const existingSource = calendarCollector.getSources().find(s => 
+      const existingSource = (await calendarCollector.getSources()).find(s => 
         s.feedUrl === source.feedUrl || s.id === source.id || 
         (s.name === source.name && s.city === source.city && s.state === source.state)
       );
@@ -994,6 +1062,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         jsPatterns: string[];
         formActions: { action: string | undefined; method: string }[];
         commonPaths: string[];
+        googleCalendars: GoogleCalendarEmbed[];
       } = {
         directLinks: [],
         downloadButtons: [],
@@ -1002,7 +1071,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         metaLinks: [],
         jsPatterns: [],
         formActions: [],
-        commonPaths: []
+        commonPaths: [],
+        googleCalendars: findGoogleCalendarEmbeds($, websiteUrl)
       };
 
       // Direct calendar/events links
@@ -1086,6 +1156,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalPatterns: Object.values(discoveredPatterns).flat().length,
         recommendations: {
           highConfidenceFeeds: [
+            ...discoveredPatterns.googleCalendars.map(calendar => ({ type: 'google-calendar', href: calendar.icalUrl, title: calendar.title ?? undefined, color: calendar.color ?? undefined })),
             ...discoveredPatterns.metaLinks.map(meta => ({ type: 'meta', ...meta })),
             ...discoveredPatterns.downloadButtons.map(btn => ({ type: 'download', ...btn }))
           ],
@@ -1126,7 +1197,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get feed prioritization status
   app.get("/api/feed-priorities", async (req, res) => {
     try {
-      const sources = calendarCollector.getSources();
+      const sources = await calendarCollector.getSources();
 
       // Group by domain for priority analysis
       const domainGroups: Record<string, any[]> = {};
@@ -1161,9 +1232,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/collect-events", async (req, res) => {
     try {
       console.log("Manual event collection triggered...");
-      const events = await dataCollector.collectFromAllSources();
+      const events = await dataCollector.collectFromAllSources({ force: true });
 
-      await storage.saveEvents(events);
+      await dataCollector.storeEvents(events);
+      await dataCollector.mergeDuplicateEvents();
 
       res.json({
         message: "Event collection completed",
@@ -1188,7 +1260,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`Force scraping feeds for ${city}, ${state}...`);
 
       // Get all active sources for this location
-      const allSources = calendarCollector.getSources();
+      const allSources = await calendarCollector.getSources();
       const locationSources = allSources.filter(source => 
         source.city.toLowerCase() === city.toLowerCase() && 
         source.state.toUpperCase() === state.toUpperCase() && 
@@ -1202,7 +1274,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       for (const source of locationSources) {
         try {
           console.log(`Scraping source: ${source.name} (${source.feedType}) - ${source.feedUrl}`);
-          const events = await calendarCollector.collectFromSource(source);
+          const events = await calendarCollector.collectFromSource(source, { force: true });
           allEvents.push(...events);
           console.log(`✓ Collected ${events.length} events from ${source.name}`);
         } catch (error) {
@@ -1212,8 +1284,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Save the events
       if (allEvents.length > 0) {
-        await storage.saveEvents(allEvents);
+        await dataCollector.storeEvents(allEvents);
         console.log(`Saved ${allEvents.length} events to storage`);
+        await dataCollector.mergeDuplicateEvents();
       }
 
       res.json({
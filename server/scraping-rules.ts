@@ -0,0 +1,161 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { isValid, parse } from 'date-fns';
+import type { ScrapingRules } from '@shared/schema';
+import { collapseWhitespace, normalizeDateText, resolveUrl, type StructuredEvent } from './structured-data';
+
+/**
+ * What one page yielded for a rule set. `skipped` lists containers that matched but
+ * couldn't be turned into an event, so a rule set can be tuned from the preview.
+ */
+export interface RuleMatch {
+  events: StructuredEvent[];
+  containers: number;
+  skipped: Array<{ title: string | null; date: string | null; reason: string }>;
+}
+
+// Past dates from year-less formats ("MMM d") this far back are taken to mean next year
+const YEARLESS_ROLLOVER_DAYS = 30;
+
+/**
+ * Apply a source's rule set to one page of its calendar
+ */
+export function applyScrapingRules($: CheerioAPI, rules: ScrapingRules, pageUrl: string, now = new Date()): RuleMatch {
+  const match: RuleMatch = { events: [], containers: 0, skipped: [] };
+
+  $(rules.container).each((_, container) => {
+    match.containers++;
+    const $container = $(container);
+
+    const title = select($, $container, rules.title);
+    const dateText = select($, $container, rules.date);
+    if (!title) {
+      match.skipped.push({ title, date: dateText, reason: 'no title' });
+      return;
+    }
+    if (!dateText) {
+      match.skipped.push({ title, date: dateText, reason: 'no date' });
+      return;
+    }
+
+    const date = parseRuleDate(dateText, rules.dateFormat, now);
+    if (!date) {
+      match.skipped.push({ title, date: dateText, reason: rules.dateFormat ? `date does not match "${rules.dateFormat}"` : 'unrecognised date' });
+      return;
+    }
+
+    // Times come from their own selector, or from the date text ("Nov 5, 2026 7:00 PM")
+    const times = date.hasTime ? null : parseTimeRange(rules.time ? select($, $container, rules.time) ?? '' : dateText);
+    const startDate = date.hasTime ? date.value : times ? `${date.value}T${times.start}` : date.value;
+    const endDate = times?.end ? `${date.value}T${times.end}` : null;
+
+    match.events.push({
+      id: null,
+      name: title,
+      description: rules.description ? select($, $container, rules.description) : null,
+      startDate,
+      endDate: endDate && endDate > startDate ? endDate : null,
+      locationName: rules.location ? select($, $container, rules.location) : null,
+      address: null,
+      price: null,
+      maxPrice: null,
+      imageUrl: null,
+      url: rules.link ? resolveUrl(selectLink($, $container, rules.link), pageUrl) : null
+    });
+  });
+
+  return match;
+}
+
+/**
+ * The next page of the calendar according to the rule set's pagination selector
+ */
+export function nextPageUrl($: CheerioAPI, rules: ScrapingRules, pageUrl: string): string | null {
+  if (!rules.pagination) return null;
+  const next = resolveUrl(selectLink($, $.root(), rules.pagination.next), pageUrl);
+  return next && next !== pageUrl ? next : null;
+}
+
+/**
+ * Read a field relative to its container. "selector@attr" reads an attribute, and a
+ * bare "@attr" reads it from the container itself.
+ */
+function select($: CheerioAPI, $container: Cheerio<any>, spec: string): string | null {
+  const { selector, attribute } = splitSpec(spec);
+  const $element = selector ? $container.find(selector).first() : $container;
+  if ($element.length === 0) return null;
+  return collapseWhitespace(attribute ? $element.attr(attribute) : $element.text());
+}
+
+// Links read href by default, from the matched element or the first anchor inside it
+function selectLink($: CheerioAPI, $container: Cheerio<any>, spec: string): string | null {
+  const { selector, attribute } = splitSpec(spec);
+  const $element = selector ? $container.find(selector).first() : $container;
+  if ($element.length === 0) return null;
+  if (attribute) return $element.attr(attribute) ?? null;
+
+  const $anchor = $element.is('a') ? $element : $element.find('a[href]').first();
+  return $anchor.attr('href') ?? null;
+}
+
+function splitSpec(spec: string): { selector: string; attribute: string | null } {
+  const match = spec.match(/^(.*?)\s*@([\w:-]+)$/);
+  return match ? { selector: match[1].trim(), attribute: match[2] } : { selector: spec.trim(), attribute: null };
+}
+
+/**
+ * Parse a scraped date with the rule set's date-fns format, or free-form when it has
+ * none. Returns an ISO date (with a time when the text carried one).
+ */
+function parseRuleDate(text: string, dateFormat: string | undefined, now: Date): { value: string; hasTime: boolean } | null {
+  if (!dateFormat) {
+    const normalized = normalizeDateText(text);
+    if (!normalized || normalized.startsWith('T')) return null;
+    return { value: normalized, hasTime: normalized.includes('T') };
+  }
+
+  let parsed = parse(text, dateFormat, now);
+  if (!isValid(parsed)) return null;
+
+  if (!/y/i.test(dateFormat) && now.getTime() - parsed.getTime() > YEARLESS_ROLLOVER_DAYS * 24 * 60 * 60 * 1000) {
+    parsed = new Date(parsed);
+    parsed.setFullYear(parsed.getFullYear() + 1);
+  }
+
+  const hasTime = /[hHkKm]/.test(dateFormat.replace(/'[^']*'/g, ''));
+  const value = `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+  return hasTime ? { value: `${value}T${pad(parsed.getHours())}:${pad(parsed.getMinutes())}:00`, hasTime } : { value, hasTime };
+}
+
+/**
+ * Pull a start (and optional end) time out of text such as "7 - 9pm", "6:30 PM to 8:00 PM" or "18:00"
+ */
+export function parseTimeRange(text: string): { start: string; end: string | null } | null {
+  const range = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?m?\.?\s*(?:-|–|—|to)\s*(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?/i);
+  if (range) {
+    const [, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem] = range;
+    return {
+      // "7 - 9pm" shares the end's meridiem
+      start: clockTime(startHour, startMinute, startMeridiem || endMeridiem),
+      end: clockTime(endHour, endMinute, endMeridiem)
+    };
+  }
+
+  const single = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?/i);
+  if (single) return { start: clockTime(single[1], single[2], single[3]), end: null };
+
+  const twentyFourHour = text.match(/\b([01]?\d|2[0-3]):([0-5]\d)\b/);
+  if (twentyFourHour) return { start: clockTime(twentyFourHour[1], twentyFourHour[2]), end: null };
+
+  return null;
+}
+
+function clockTime(hour: string, minute: string | undefined, meridiem?: string): string {
+  let hours = Number(hour);
+  if (meridiem?.toLowerCase() === 'p' && hours < 12) hours += 12;
+  if (meridiem?.toLowerCase() === 'a' && hours === 12) hours = 0;
+  return `${pad(hours)}:${minute || '00'}:00`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
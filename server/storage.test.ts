@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequire } from 'module';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import * as schema from '@shared/schema';
+import type { InsertEvent } from '@shared/schema';
+import type { Database } from './db';
+import { DrizzleStorage, MemStorage, eventIdFor, type IStorage } from './storage';
+
+// drizzle-kit's ESM bundle can't load its own CommonJS dependencies, so take the CommonJS build
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api') as typeof import('drizzle-kit/api');
+
+// An in-process Postgres with the schema applied, the same tables `npm run db:push` creates
+let database: Promise<Database> | null = null;
+function pgliteDatabase(): Promise<Database> {
+  database ??= (async () => {
+    const client = new PGlite();
+    for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+      await client.exec(statement);
+    }
+    return drizzle(client, { schema });
+  })();
+  return database;
+}
+
+// Each case runs against both backends, starting from an empty event table
+const backends: Array<[string, () => Promise<IStorage>]> = [
+  ['MemStorage', async () => new MemStorage()],
+  ['DrizzleStorage', async () => {
+    const storage = new DrizzleStorage(await pgliteDatabase());
+    await storage.clearAllEvents();
+    return storage;
+  }]
+];
+
+function event(overrides: Partial<InsertEvent> & Pick<InsertEvent, 'title' | 'startDate'>): InsertEvent {
+  return {
+    description: '',
+    category: 'Community & Social',
+    location: 'City Hall',
+    organizer: 'Springfield',
+    endDate: new Date(overrides.startDate.getTime() + 60 * 60 * 1000),
+    startTime: '',
+    endTime: '',
+    source: 'springfield-city',
+    ...overrides
+  };
+}
+
+const titles = (events: Array<{ title: string }>) => events.map(event => event.title).sort();
+
+for (const [name, createStorage] of backends) {
+  test(`${name}: filters by tag, audience, date overlap and price`, async () => {
+    const storage = await createStorage();
+    await storage.createEvent(event({ title: 'Jazz Night', startDate: new Date('2030-06-01T19:00:00Z'), category: 'Music & Concerts', tags: ['Arts & Culture'], isFree: 'false', priceMin: 15, priceMax: 25 }));
+    await storage.createEvent(event({ title: 'Story Time', startDate: new Date('2030-06-02T10:00:00Z'), category: 'Education & Learning', tags: ['Family & Kids'], audience: ['Kids'], isFree: 'true' }));
+    await storage.createEvent(event({ title: 'Fair', startDate: new Date('2030-05-30T09:00:00Z'), endDate: new Date('2030-06-03T00:00:00Z'), audience: ['All Ages'], isFree: 'false', priceMin: 5, priceMax: 5 }));
+    await storage.createEvent(event({ title: 'Gala', startDate: new Date('2030-06-05T18:00:00Z'), audience: ['Adults'], isFree: 'false' }));
+
+    assert.deepEqual(titles(await storage.getFilteredEvents({ categories: ['Arts & Culture'] })), ['Jazz Night']);
+    assert.deepEqual(titles(await storage.getFilteredEvents({ categories: ['Family & Kids', 'Music & Concerts'] })), ['Jazz Night', 'Story Time']);
+    assert.deepEqual(titles(await storage.getFilteredEvents({ audience: ['Kids'] })), ['Fair', 'Story Time']);
+    assert.deepEqual(titles(await storage.getFilteredEvents({ startDate: '2030-06-01T00:00:00Z', endDate: '2030-06-01T23:59:59Z' })), ['Fair', 'Jazz Night']);
+    assert.deepEqual(titles(await storage.getFilteredEvents({ search: 'story' })), ['Story Time']);
+    assert.deepEqual(titles(await storage.getFilteredEvents({ freeOnly: true })), ['Story Time']);
+    assert.deepEqual(titles(await storage.getFilteredEvents({ maxPrice: 10 })), ['Fair', 'Story Time']);
+  });
+
+  test(`${name}: upserts by external id and returns the previous copy`, async () => {
+    const storage = await createStorage();
+    const first = await storage.upsertEvent(event({ title: 'Parade', startDate: new Date('2030-07-04T15:00:00Z'), externalId: 'uid:parade' }));
+    assert.equal(first.event.id, eventIdFor('springfield-city', 'uid:parade'));
+    assert.equal(first.previous, undefined);
+
+    const second = await storage.upsertEvent(event({ title: 'Parade', startDate: new Date('2030-07-04T16:00:00Z'), location: 'Main Street', externalId: 'uid:parade' }));
+    assert.equal(second.event.id, first.event.id);
+    assert.equal(second.previous?.location, 'City Hall');
+    assert.deepEqual([second.event.location, new Date(second.event.startDate)], ['Main Street', new Date('2030-07-04T16:00:00Z')]);
+    assert.equal((await storage.getAllEvents()).length, 1);
+  });
+
+  test(`${name}: marks unseen scheduled events in the range as stale`, async () => {
+    const storage = await createStorage();
+    const upsert = async (externalId: string, startDate: string, source = 'springfield-city') =>
+      (await storage.upsertEvent(event({ title: externalId, startDate: new Date(startDate), externalId, source }))).event;
+    const kept = await upsert('kept', '2030-08-02T10:00:00Z');
+    const dropped = await upsert('dropped', '2030-08-03T10:00:00Z');
+    const later = await upsert('later', '2030-09-01T10:00:00Z');
+    const otherSource = await upsert('other', '2030-08-03T10:00:00Z', 'springfield-library');
+
+    const marked = await storage.markMissingEvents('springfield-city', [kept.id], new Date('2030-08-01T00:00:00Z'), new Date('2030-08-31T00:00:00Z'));
+    assert.equal(marked, 1);
+
+    const statuses = await Promise.all([kept, dropped, later, otherSource].map(async ({ id }) => (await storage.getEvent(id))?.status));
+    assert.deepEqual(statuses, ['scheduled', 'stale', 'scheduled', 'scheduled']);
+  });
+
+  test(`${name}: keeps revisions newest first`, async () => {
+    const storage = await createStorage();
+    const { event: stored } = await storage.upsertEvent(event({ title: 'Concert', startDate: new Date('2030-06-01T19:00:00Z'), externalId: 'uid:concert' }));
+    await storage.createEventRevisions([
+      { eventId: stored.id, field: 'location', previousValue: 'Park', newValue: 'City Hall', changedAt: new Date('2030-05-01T00:00:00Z') },
+      { eventId: stored.id, field: 'startDate', previousValue: '2030-06-01T18:00:00.000Z', newValue: '2030-06-01T19:00:00.000Z', changedAt: new Date('2030-05-02T00:00:00Z') }
+    ]);
+
+    const revisions = await storage.getEventRevisions(stored.id);
+    assert.deepEqual(revisions.map(revision => [revision.field, revision.newValue]), [
+      ['startDate', '2030-06-01T19:00:00.000Z'],
+      ['location', 'City Hall']
+    ]);
+  });
+
+  test(`${name}: counts categories and tags per source`, async () => {
+    const storage = await createStorage();
+    await storage.createEvent(event({ title: 'Jazz Night', startDate: new Date('2030-06-01T19:00:00Z'), category: 'Music & Concerts', tags: ['Arts & Culture'] }));
+    await storage.createEvent(event({ title: 'Blues Night', startDate: new Date('2030-06-08T19:00:00Z'), category: 'Music & Concerts' }));
+    await storage.createEvent(event({ title: 'Story Time', startDate: new Date('2030-06-02T10:00:00Z'), category: 'Education & Learning', tags: ['Family & Kids', 'Arts & Culture'], source: 'springfield-library' }));
+
+    assert.deepEqual(await storage.getCategoryDistribution(), [
+      { source: 'springfield-city', total: 2, categories: { 'Music & Concerts': 2 }, tags: { 'Arts & Culture': 1 } },
+      { source: 'springfield-library', total: 1, categories: { 'Education & Learning': 1 }, tags: { 'Family & Kids': 1, 'Arts & Culture': 1 } }
+    ]);
+  });
+}
@@ -1,30 +1,62 @@
-import { type Event, type InsertEvent, type EventFilter, type City, type CitySearch } from "@shared/schema";
-import { randomUUID } from "crypto";
+import {
+  type Event, type InsertEvent, type EventFilter, type City, type CitySearch,
+  type CalendarSourceRecord, type InsertCalendarSource, type EventRevision, type InsertEventRevision,
+  type SourceCategoryDistribution, type AudienceGroup,
+  events, cities, calendarSources, eventRevisions
+} from "@shared/schema";
+import { createHash, randomUUID } from "crypto";
+import { and, asc, count, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lte, notInArray, or, sql, type SQL } from "drizzle-orm";
 import { CityDataLoader } from "./city-data-loader";
+import { createDatabase, type Database } from "./db";
 
 export interface IStorage {
   getEvent(id: string): Promise<Event | undefined>;
   getAllEvents(): Promise<Event[]>;
   getFilteredEvents(filters: EventFilter): Promise<Event[]>;
   createEvent(event: InsertEvent): Promise<Event>;
+  upsertEvent(event: InsertEvent): Promise<{ event: Event; previous?: Event }>;
+  markMissingEvents(source: string, seenIds: string[], from: Date, to: Date): Promise<number>;
+  getEventRevisions(eventId: string): Promise<EventRevision[]>;
+  createEventRevisions(revisions: InsertEventRevision[]): Promise<EventRevision[]>;
   updateEvent(id: string, event: Partial<InsertEvent>): Promise<Event | undefined>;
   deleteEvent(id: string): Promise<boolean>;
   clearAllEvents(): Promise<void>;
   getEventsByDateRange(startDate: string, endDate: string): Promise<Event[]>;
   getEventsByCategory(category: string): Promise<Event[]>;
+  getEventsForMerging(from: Date): Promise<Event[]>;
+  getCategoryDistribution(): Promise<SourceCategoryDistribution[]>;
   
   // City methods
   searchCities(search: CitySearch): Promise<City[]>;
   getCityByGeoid(geoid: string): Promise<City | undefined>;
   getCityByName(cityName: string, state?: string): Promise<City | undefined>;
   getAllCities(): Promise<City[]>;
+
+  // Calendar source methods
+  getCalendarSources(): Promise<CalendarSourceRecord[]>;
+  upsertCalendarSource(source: InsertCalendarSource): Promise<CalendarSourceRecord>;
+  deleteCalendarSource(id: string): Promise<boolean>;
+}
+
+/**
+ * Deterministic event id for a source's external identity, so permalinks survive re-syncs.
+ * Formatted as a name-based (v5-style) UUID to match randomly generated ids.
+ */
+export function eventIdFor(source: string, externalId: string): string {
+  const hash = createHash('sha1').update(`${source}\u0000${externalId}`).digest('hex');
+  const variant = ((parseInt(hash[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-${variant}${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
 }
 
 export class MemStorage implements IStorage {
   private events: Map<string, Event>;
+  private eventRevisions: Map<string, EventRevision[]>;
+  private calendarSources: Map<string, CalendarSourceRecord>;
 
   constructor() {
     this.events = new Map();
+    this.eventRevisions = new Map();
+    this.calendarSources = new Map();
     this.seedInitialData();
   }
 
@@ -38,14 +70,19 @@ export class MemStorage implements IStorage {
     return this.events.get(id);
   }
 
+  // Listings merged into another source's copy of the event are only reachable by id
+  private listedEvents(): Event[] {
+    return Array.from(this.events.values()).filter(event => !event.mergedInto);
+  }
+
   async getAllEvents(): Promise<Event[]> {
-    const events = Array.from(this.events.values());
+    const events = this.listedEvents();
     console.log(`Storage: getAllEvents() returning ${events.length} events from ${this.events.size} stored events`);
     return events;
   }
 
   async getFilteredEvents(filters: EventFilter): Promise<Event[]> {
-    let events = Array.from(this.events.values());
+    let events = this.listedEvents();
 
     if (filters.search) {
       const searchTerm = filters.search.toLowerCase();
@@ -57,8 +94,11 @@ export class MemStorage implements IStorage {
       );
     }
 
+    // A category matches an event's primary category or one of its secondary tags
     if (filters.categories && filters.categories.length > 0) {
-      events = events.filter(event => filters.categories!.includes(event.category));
+      events = events.filter(event =>
+        filters.categories!.includes(event.category) || !!event.tags?.some(tag => filters.categories!.includes(tag))
+      );
     }
 
     // Location filter - support both single location and multiple locations
@@ -100,9 +140,10 @@ export class MemStorage implements IStorage {
       console.log(`Storage: Filtered events for locations [${locations.join(', ')}] - found ${events.length} matching events`);
     }
 
+    // Match on overlap so multi-day events still running at the range start are included
     if (filters.startDate) {
       const startDate = new Date(filters.startDate);
-      events = events.filter(event => new Date(event.startDate) >= startDate);
+      events = events.filter(event => new Date(event.endDate) > startDate);
     }
 
     if (filters.endDate) {
@@ -110,25 +151,102 @@ export class MemStorage implements IStorage {
       events = events.filter(event => new Date(event.startDate) <= endDate);
     }
 
+    // Events without a known price only pass a price filter when their source marks them free
+    if (filters.freeOnly) {
+      events = events.filter(event => event.isFree === "true");
+    }
+
+    if (filters.audience && filters.audience.length > 0) {
+      const groups = audienceFilterGroups(filters.audience);
+      events = events.filter(event => !!event.audience?.some(group => groups.includes(group)));
+    }
 
+    if (filters.maxPrice !== undefined) {
+      events = events.filter(event => event.isFree === "true" || (event.priceMin !== null && event.priceMin <= filters.maxPrice!));
+    }
 
     return events;
   }
 
   async createEvent(event: InsertEvent): Promise<Event> {
-    const id = randomUUID();
+    const id = event.externalId ? eventIdFor(event.source, event.externalId) : randomUUID();
     const newEvent: Event = { 
       ...event, 
       id,
       attendees: event.attendees ?? 0,
       imageUrl: event.imageUrl ?? null,
-      isFree: event.isFree ?? "true"
+      isFree: event.isFree ?? "true",
+      tags: event.tags ?? null,
+      priceMin: event.priceMin ?? null,
+      priceMax: event.priceMax ?? null,
+      priceLabel: event.priceLabel ?? null,
+      externalId: event.externalId ?? null,
+      status: event.status ?? "scheduled",
+      timezone: event.timezone ?? null,
+      allDay: event.allDay ?? false,
+      parseConfidence: event.parseConfidence ?? null,
+      meetingDetails: event.meetingDetails ?? null,
+      audience: event.audience ?? null,
+      ageMin: event.ageMin ?? null,
+      ageMax: event.ageMax ?? null,
+      registration: event.registration ?? null,
+      url: event.url ?? null,
+      attachments: event.attachments ?? null,
+      mergedInto: event.mergedInto ?? null,
+      alsoListedBy: event.alsoListedBy ?? null,
+      distinctFrom: event.distinctFrom ?? null
     };
     this.events.set(id, newEvent);
     console.log(`Storage: Created event ${newEvent.title} (ID: ${id}). Total events: ${this.events.size}`);
     return newEvent;
   }
 
+  async upsertEvent(event: InsertEvent): Promise<{ event: Event; previous?: Event }> {
+    const existingEvent = event.externalId ? this.events.get(eventIdFor(event.source, event.externalId)) : undefined;
+    if (!existingEvent) {
+      return { event: await this.createEvent(event) };
+    }
+
+    const updatedEvent = await this.updateEvent(existingEvent.id, event);
+    return { event: updatedEvent!, previous: existingEvent };
+  }
+
+  async markMissingEvents(source: string, seenIds: string[], from: Date, to: Date): Promise<number> {
+    const seen = new Set(seenIds);
+    let markedCount = 0;
+
+    this.events.forEach(event => {
+      const startDate = new Date(event.startDate);
+      if (event.source === source && event.status === "scheduled" && !seen.has(event.id) &&
+          startDate >= from && startDate <= to) {
+        event.status = "stale";
+        markedCount++;
+      }
+    });
+
+    return markedCount;
+  }
+
+  async getEventRevisions(eventId: string): Promise<EventRevision[]> {
+    const revisions = this.eventRevisions.get(eventId) || [];
+    return [...revisions].sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime());
+  }
+
+  async createEventRevisions(revisions: InsertEventRevision[]): Promise<EventRevision[]> {
+    const created = revisions.map(revision => ({
+      ...revision,
+      id: randomUUID(),
+      changedAt: revision.changedAt ?? new Date()
+    }));
+
+    for (const revision of created) {
+      const existing = this.eventRevisions.get(revision.eventId) || [];
+      this.eventRevisions.set(revision.eventId, [...existing, revision]);
+    }
+
+    return created;
+  }
+
   async updateEvent(id: string, eventData: Partial<InsertEvent>): Promise<Event | undefined> {
     const existingEvent = this.events.get(id);
     if (!existingEvent) return undefined;
@@ -143,11 +261,13 @@ export class MemStorage implements IStorage {
   }
 
   async deleteEvent(id: string): Promise<boolean> {
+    this.eventRevisions.delete(id);
     return this.events.delete(id);
   }
 
   async clearAllEvents(): Promise<void> {
     this.events.clear();
+    this.eventRevisions.clear();
     console.log('All events cleared from storage');
   }
 
@@ -155,18 +275,30 @@ export class MemStorage implements IStorage {
     const start = new Date(startDate);
     const end = new Date(endDate);
     
-    return Array.from(this.events.values()).filter(event => {
-      const eventDate = new Date(event.startDate);
-      return eventDate >= start && eventDate <= end;
-    });
+    return this.listedEvents().filter(event => 
+      new Date(event.endDate) > start && new Date(event.startDate) <= end
+    );
   }
 
   async getEventsByCategory(category: string): Promise<Event[]> {
-    return Array.from(this.events.values()).filter(event => 
+    return this.listedEvents().filter(event => 
       event.category === category
     );
   }
 
+  async getEventsForMerging(from: Date): Promise<Event[]> {
+    return Array.from(this.events.values()).filter(event => new Date(event.endDate) > from);
+  }
+
+  async getCategoryDistribution(): Promise<SourceCategoryDistribution[]> {
+    return categoryDistribution(Array.from(this.events.values()).map(event => ({
+      source: event.source,
+      category: event.category,
+      tags: event.tags,
+      count: 1
+    })));
+  }
+
   // City methods
   async searchCities(search: CitySearch): Promise<City[]> {
     const cities = await CityDataLoader.loadCities();
@@ -255,6 +387,422 @@ export class MemStorage implements IStorage {
     const cities = await CityDataLoader.loadCities();
     return Array.from(cities.values());
   }
+
+  // Calendar source methods
+  async getCalendarSources(): Promise<CalendarSourceRecord[]> {
+    return Array.from(this.calendarSources.values());
+  }
+
+  async upsertCalendarSource(source: InsertCalendarSource): Promise<CalendarSourceRecord> {
+    const record: CalendarSourceRecord = {
+      ...source,
+      feedUrl: source.feedUrl ?? null,
+      websiteUrl: source.websiteUrl ?? null,
+      isActive: source.isActive ?? true,
+      lastSync: source.lastSync ?? null,
+      timezone: source.timezone ?? null,
+      etag: source.etag ?? null,
+      lastModified: source.lastModified ?? null,
+      contentHash: source.contentHash ?? null,
+      lastParsed: source.lastParsed ?? null,
+      scrapingRules: source.scrapingRules ?? null,
+      color: source.color ?? null
+    };
+    this.calendarSources.set(record.id, record);
+    return record;
+  }
+
+  async deleteCalendarSource(id: string): Promise<boolean> {
+    return this.calendarSources.delete(id);
+  }
+}
+
+/**
+ * Escape LIKE wildcards so user input is matched literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// Events for everyone belong in every audience filter
+function audienceFilterGroups(audience: AudienceGroup[]): AudienceGroup[] {
+  return audience.includes("All Ages") ? audience : [...audience, "All Ages"];
+}
+
+// Per-source counts of primary categories and secondary tags, busiest sources first
+function categoryDistribution(rows: Array<{ source: string; category: string | null; tags: string[] | null; count: number }>): SourceCategoryDistribution[] {
+  const bySource = new Map<string, SourceCategoryDistribution>();
+
+  for (const row of rows) {
+    let distribution = bySource.get(row.source);
+    if (!distribution) {
+      distribution = { source: row.source, total: 0, categories: {}, tags: {} };
+      bySource.set(row.source, distribution);
+    }
+    if (row.category) {
+      distribution.total += row.count;
+      distribution.categories[row.category] = (distribution.categories[row.category] ?? 0) + row.count;
+    }
+    for (const tag of row.tags ?? []) {
+      distribution.tags[tag] = (distribution.tags[tag] ?? 0) + row.count;
+    }
+  }
+
+  return Array.from(bySource.values()).sort((a, b) => b.total - a.total || a.source.localeCompare(b.source));
+}
+
+export class DrizzleStorage implements IStorage {
+  private citiesSeeded: Promise<void> | null = null;
+
+  constructor(private db: Database) {
+    console.log('Storage initialized - using Postgres via Drizzle');
+  }
+
+  async getEvent(id: string): Promise<Event | undefined> {
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
+    return event;
+  }
+
+  async getAllEvents(): Promise<Event[]> {
+    const result = await this.db.select().from(events).where(isNull(events.mergedInto)).orderBy(asc(events.startDate));
+    console.log(`Storage: getAllEvents() returning ${result.length} events`);
+    return result;
+  }
+
+  async getFilteredEvents(filters: EventFilter): Promise<Event[]> {
+    const conditions: SQL[] = [isNull(events.mergedInto)];
+
+    if (filters.search) {
+      const pattern = `%${escapeLike(filters.search)}%`;
+      conditions.push(or(
+        ilike(events.title, pattern),
+        ilike(events.description, pattern),
+        ilike(events.location, pattern),
+        ilike(events.organizer, pattern)
+      )!);
+    }
+
+    // A category matches an event's primary category or one of its secondary tags
+    if (filters.categories && filters.categories.length > 0) {
+      conditions.push(or(
+        inArray(events.category, filters.categories),
+        sql`${events.tags} ?| array[${sql.join(filters.categories.map(category => sql`${category}`), sql`, `)}]::text[]`
+      )!);
+    }
+
+    // Location filter - support both single location and multiple locations
+    const locations: string[] = [];
+    if (filters.location && filters.location.trim() !== '') {
+      locations.push(filters.location);
+    }
+    if (filters.locations && Array.isArray(filters.locations)) {
+      locations.push(...filters.locations);
+    }
+
+    if (locations.length > 0) {
+      const locationConditions = locations.flatMap(location => {
+        // Handle "City, State" format searches by also matching the city part
+        const terms = [location];
+        if (location.includes(',')) {
+          terms.push(location.split(',')[0].trim());
+        }
+
+        return terms.map(term => {
+          const pattern = `%${escapeLike(term)}%`;
+          return or(
+            ilike(events.location, pattern),
+            ilike(events.organizer, pattern),
+            ilike(events.source, pattern)
+          )!;
+        });
+      });
+      conditions.push(or(...locationConditions)!);
+    }
+
+    // Match on overlap so multi-day events still running at the range start are included
+    if (filters.startDate) {
+      conditions.push(gt(events.endDate, new Date(filters.startDate)));
+    }
+
+    if (filters.endDate) {
+      conditions.push(lte(events.startDate, new Date(filters.endDate)));
+    }
+
+    // Events without a known price only pass a price filter when their source marks them free
+    if (filters.freeOnly) {
+      conditions.push(eq(events.isFree, "true"));
+    }
+
+    if (filters.maxPrice !== undefined) {
+      conditions.push(or(eq(events.isFree, "true"), lte(events.priceMin, filters.maxPrice))!);
+    }
+
+    if (filters.audience && filters.audience.length > 0) {
+      const groups = audienceFilterGroups(filters.audience);
+      conditions.push(sql`${events.audience} ?| array[${sql.join(groups.map(group => sql`${group}`), sql`, `)}]::text[]`);
+    }
+
+    const result = await this.db
+      .select()
+      .from(events)
+      .where(and(...conditions))
+      .orderBy(asc(events.startDate));
+
+    if (locations.length > 0) {
+      console.log(`Storage: Filtered events for locations [${locations.join(', ')}] - found ${result.length} matching events`);
+    }
+
+    return result;
+  }
+
+  async createEvent(event: InsertEvent): Promise<Event> {
+    const id = event.externalId ? eventIdFor(event.source, event.externalId) : randomUUID();
+    const [newEvent] = await this.db.insert(events).values({ ...event, id }).returning();
+    console.log(`Storage: Created event ${newEvent.title} (ID: ${newEvent.id})`);
+    return newEvent;
+  }
+
+  async upsertEvent(event: InsertEvent): Promise<{ event: Event; previous?: Event }> {
+    if (!event.externalId) {
+      return { event: await this.createEvent(event) };
+    }
+
+    const id = eventIdFor(event.source, event.externalId);
+    const existingEvent = await this.getEvent(id);
+    const [savedEvent] = await this.db
+      .insert(events)
+      .values({ ...event, id })
+      .onConflictDoUpdate({ target: events.id, set: event })
+      .returning();
+    return { event: savedEvent, previous: existingEvent };
+  }
+
+  async markMissingEvents(source: string, seenIds: string[], from: Date, to: Date): Promise<number> {
+    const marked = await this.db
+      .update(events)
+      .set({ status: "stale" })
+      .where(and(
+        eq(events.source, source),
+        eq(events.status, "scheduled"),
+        gte(events.startDate, from),
+        lte(events.startDate, to),
+        seenIds.length > 0 ? notInArray(events.id, seenIds) : undefined
+      ))
+      .returning({ id: events.id });
+    return marked.length;
+  }
+
+  async getEventRevisions(eventId: string): Promise<EventRevision[]> {
+    return this.db
+      .select()
+      .from(eventRevisions)
+      .where(eq(eventRevisions.eventId, eventId))
+      .orderBy(desc(eventRevisions.changedAt));
+  }
+
+  async createEventRevisions(revisions: InsertEventRevision[]): Promise<EventRevision[]> {
+    if (revisions.length === 0) return [];
+    return this.db.insert(eventRevisions).values(revisions).returning();
+  }
+
+  async updateEvent(id: string, eventData: Partial<InsertEvent>): Promise<Event | undefined> {
+    if (Object.keys(eventData).length === 0) {
+      return this.getEvent(id);
+    }
+
+    const [updatedEvent] = await this.db
+      .update(events)
+      .set(eventData)
+      .where(eq(events.id, id))
+      .returning();
+    return updatedEvent;
+  }
+
+  async deleteEvent(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(events).where(eq(events.id, id)).returning({ id: events.id });
+    return deleted.length > 0;
+  }
+
+  async clearAllEvents(): Promise<void> {
+    await this.db.delete(events);
+    console.log('All events cleared from storage');
+  }
+
+  async getEventsByDateRange(startDate: string, endDate: string): Promise<Event[]> {
+    return this.db
+      .select()
+      .from(events)
+      .where(and(
+        isNull(events.mergedInto),
+        gt(events.endDate, new Date(startDate)),
+        lte(events.startDate, new Date(endDate))
+      ))
+      .orderBy(asc(events.startDate));
+  }
+
+  async getEventsByCategory(category: string): Promise<Event[]> {
+    return this.db
+      .select()
+      .from(events)
+      .where(and(isNull(events.mergedInto), eq(events.category, category)))
+      .orderBy(asc(events.startDate));
+  }
+
+  async getEventsForMerging(from: Date): Promise<Event[]> {
+    return this.db
+      .select()
+      .from(events)
+      .where(gt(events.endDate, from))
+      .orderBy(asc(events.startDate));
+  }
+
+  async getCategoryDistribution(): Promise<SourceCategoryDistribution[]> {
+    const primary = await this.db
+      .select({ source: events.source, category: events.category, count: count() })
+      .from(events)
+      .groupBy(events.source, events.category);
+    const tagged = await this.db
+      .select({ source: events.source, tags: events.tags })
+      .from(events)
+      .where(isNotNull(events.tags));
+
+    return categoryDistribution([
+      ...primary.map(row => ({ ...row, tags: null })),
+      ...tagged.map(row => ({ source: row.source, category: null, tags: row.tags, count: 1 }))
+    ]);
+  }
+
+  // City methods
+  async searchCities(search: CitySearch): Promise<City[]> {
+    await this.ensureCitiesSeeded();
+    const query = search.query.toLowerCase();
+    const pattern = `%${escapeLike(search.query)}%`;
+
+    const conditions: SQL[] = [
+      or(ilike(cities.municipality, pattern), ilike(cities.state, pattern))!
+    ];
+
+    // Filter by state if specified
+    if (search.state) {
+      conditions.push(ilike(cities.state, `%${escapeLike(search.state)}%`));
+    }
+
+    // Filter by website requirement if specified
+    if (search.websiteRequired) {
+      conditions.push(eq(cities.websiteAvailable, 1));
+      conditions.push(sql`${cities.websiteUrl} is not null and ${cities.websiteUrl} <> ''`);
+    }
+
+    // Limit results and prioritize exact matches
+    return this.db
+      .select()
+      .from(cities)
+      .where(and(...conditions))
+      .orderBy(
+        sql`case when lower(${cities.municipality}) = ${query} then 0 else 1 end`,
+        asc(cities.municipality)
+      )
+      .limit(50);
+  }
+
+  async getCityByGeoid(geoid: string): Promise<City | undefined> {
+    await this.ensureCitiesSeeded();
+    const [city] = await this.db.select().from(cities).where(eq(cities.geoid, geoid));
+    return city;
+  }
+
+  async getCityByName(cityName: string, state?: string): Promise<City | undefined> {
+    await this.ensureCitiesSeeded();
+    const stateCondition = state ? sql`lower(${cities.state}) = ${state.toLowerCase()}` : undefined;
+
+    // Exact municipality match first
+    const [exactMatch] = await this.db
+      .select()
+      .from(cities)
+      .where(and(sql`lower(${cities.municipality}) = ${cityName.toLowerCase()}`, stateCondition))
+      .limit(1);
+    if (exactMatch) {
+      return exactMatch;
+    }
+
+    // If no exact match, take the shortest municipality name that contains the query
+    const [partialMatch] = await this.db
+      .select()
+      .from(cities)
+      .where(and(ilike(cities.municipality, `%${escapeLike(cityName)}%`), stateCondition))
+      .orderBy(sql`length(${cities.municipality})`)
+      .limit(1);
+    return partialMatch;
+  }
+
+  async getAllCities(): Promise<City[]> {
+    await this.ensureCitiesSeeded();
+    return this.db.select().from(cities);
+  }
+
+  /**
+   * Load the city website CSV into the cities table the first time it is needed
+   */
+  private ensureCitiesSeeded(): Promise<void> {
+    if (!this.citiesSeeded) {
+      this.citiesSeeded = this.seedCities().catch(error => {
+        this.citiesSeeded = null;
+        throw error;
+      });
+    }
+    return this.citiesSeeded;
+  }
+
+  private async seedCities(): Promise<void> {
+    const [{ total }] = await this.db.select({ total: count() }).from(cities);
+    if (total > 0) return;
+
+    const csvCities = Array.from((await CityDataLoader.loadCities()).values());
+    const batchSize = 1000;
+    for (let i = 0; i < csvCities.length; i += batchSize) {
+      await this.db.insert(cities).values(csvCities.slice(i, i + batchSize)).onConflictDoNothing();
+    }
+    console.log(`Storage: Seeded ${csvCities.length} cities into the database`);
+  }
+
+  // Calendar source methods
+  async getCalendarSources(): Promise<CalendarSourceRecord[]> {
+    return this.db.select().from(calendarSources);
+  }
+
+  async upsertCalendarSource(source: InsertCalendarSource): Promise<CalendarSourceRecord> {
+    const [record] = await this.db
+      .insert(calendarSources)
+      .values(source)
+      .onConflictDoUpdate({ target: calendarSources.id, set: source })
+      .returning();
+    return record;
+  }
+
+  async deleteCalendarSource(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(calendarSources)
+      .where(eq(calendarSources.id, id))
+      .returning({ id: calendarSources.id });
+    return deleted.length > 0;
+  }
+}
+
+/**
+ * Pick the storage backend from STORAGE_DRIVER ("memory" or "postgres").
+ * Defaults to Postgres whenever DATABASE_URL is provisioned.
+ */
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? 'postgres' : 'memory');
+
+  switch (driver) {
+    case 'postgres':
+      return new DrizzleStorage(createDatabase());
+    case 'memory':
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" - expected "memory" or "postgres"`);
+  }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export const storage = createStorage();
\ No newline at end of file
@@ -0,0 +1,362 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+
+/**
+ * An event read from a page's structured markup (schema.org JSON-LD or microformats),
+ * before it is mapped onto our own event shape. Dates are ISO 8601, with or without an
+ * offset, and date-only for all-day events.
+ */
+export interface StructuredEvent {
+  id: string | null;
+  name: string;
+  description: string | null;
+  startDate: string;
+  endDate: string | null;
+  locationName: string | null;
+  address: string | null;
+  // Lowest listed price, 0 when the event is marked free, null when the page doesn't say
+  price: number | null;
+  maxPrice: number | null; // highest listed price, when the page lists several
+  imageUrl: string | null;
+  url: string | null;
+}
+
+type JsonLdNode = Record<string, any>;
+
+/**
+ * Pull every Event out of a page's `<script type="application/ld+json">` blocks,
+ * following @graph containers, ItemList entries and EventSeries sub-events.
+ * Blocks that fail to parse are skipped rather than failing the page.
+ */
+export function extractJsonLdEvents($: CheerioAPI, pageUrl: string): StructuredEvent[] {
+  const events: StructuredEvent[] = [];
+  const seen = new Set<string>();
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    const raw = $(element).contents().text().trim();
+    if (!raw) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      // CMS templates sometimes leave trailing commas or raw newlines inside strings
+      try {
+        data = JSON.parse(raw.replace(/,\s*([}\]])/g, '$1').replace(/[\r\n\t]+/g, ' '));
+      } catch {
+        console.log(`Skipping unparseable JSON-LD block on ${pageUrl}`);
+        return;
+      }
+    }
+
+    for (const node of collectEventNodes(data)) {
+      const event = toStructuredEvent(node, pageUrl);
+      if (!event) continue;
+
+      const key = `${event.name}|${event.startDate}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      events.push(event);
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Walk a JSON-LD document and return the Event nodes in it. EventSeries that list
+ * their sub-events contribute those; a series without sub-events but with its own
+ * dates counts as a single event.
+ */
+function collectEventNodes(data: unknown, depth = 0): JsonLdNode[] {
+  if (!data || typeof data !== 'object' || depth > 6) return [];
+  if (Array.isArray(data)) {
+    return data.flatMap(item => collectEventNodes(item, depth + 1));
+  }
+
+  const node = data as JsonLdNode;
+  const nodes: JsonLdNode[] = [];
+
+  if (node['@graph']) {
+    nodes.push(...collectEventNodes(node['@graph'], depth + 1));
+  }
+
+  if (hasType(node, 'ItemList')) {
+    for (const entry of asArray(node.itemListElement)) {
+      // ListItem wrappers carry the real node under `item`
+      nodes.push(...collectEventNodes(entry?.item ?? entry, depth + 1));
+    }
+  } else if (hasType(node, 'EventSeries')) {
+    const subEvents = asArray(node.subEvent ?? node.subEvents);
+    if (subEvents.length > 0) {
+      nodes.push(...subEvents.flatMap(subEvent => collectEventNodes(inheritFromSeries(subEvent, node), depth + 1)));
+    } else if (node.startDate) {
+      nodes.push(node);
+    }
+  } else if (isEventType(node)) {
+    nodes.push(node);
+    // Festivals and conferences sometimes nest their sessions as sub-events too
+    nodes.push(...asArray(node.subEvent ?? node.subEvents).flatMap(subEvent => collectEventNodes(subEvent, depth + 1)));
+  }
+
+  return nodes;
+}
+
+function toStructuredEvent(node: JsonLdNode, pageUrl: string): StructuredEvent | null {
+  const name = text(node.name);
+  const startDate = text(node.startDate);
+  if (!name || !startDate) return null;
+
+  const place = asArray(node.location).find(location => location && typeof location === 'object') as JsonLdNode | undefined;
+  const locationText = asArray(node.location).find(location => typeof location === 'string') as string | undefined;
+
+  return {
+    id: text(node['@id']),
+    name,
+    description: text(node.description),
+    startDate,
+    endDate: text(node.endDate),
+    locationName: text(place?.name) ?? locationText ?? null,
+    address: formatAddress(place?.address),
+    ...offerPrices(node),
+    imageUrl: resolveUrl(imageUrlOf(node.image), pageUrl),
+    url: resolveUrl(text(node.url), pageUrl)
+  };
+}
+
+// Sub-events often leave out the details they share with their series
+function inheritFromSeries(subEvent: unknown, series: JsonLdNode): unknown {
+  if (!subEvent || typeof subEvent !== 'object' || Array.isArray(subEvent)) return subEvent;
+  const inherited: JsonLdNode = {};
+  for (const field of ['name', 'description', 'location', 'offers', 'image', 'url', 'isAccessibleForFree']) {
+    if (series[field] !== undefined) inherited[field] = series[field];
+  }
+  return { ...inherited, ...(subEvent as JsonLdNode) };
+}
+
+// Classic hCalendar and microformats2 class names for each event property
+const MICROFORMAT_ROOTS = '.vevent, .h-event';
+const MICROFORMAT_PROPERTIES = {
+  name: ['p-name', 'summary'],
+  description: ['p-summary', 'p-description', 'e-content', 'description'],
+  start: ['dt-start', 'dtstart'],
+  end: ['dt-end', 'dtend'],
+  location: ['p-location', 'location'],
+  url: ['u-url', 'url'],
+  photo: ['u-photo', 'photo']
+};
+
+/**
+ * Pull events marked up with hCalendar (`vevent`) or microformats2 (`h-event`) classes.
+ * Only machine-readable or fully written-out dates are accepted, so a template that
+ * shows "Nov 5" without a year is left to the heuristic scrapers rather than guessed at.
+ */
+export function extractMicroformatEvents($: CheerioAPI, pageUrl: string): StructuredEvent[] {
+  const events: StructuredEvent[] = [];
+
+  $(MICROFORMAT_ROOTS).each((_, root) => {
+    const $root = $(root);
+    // Properties belong to the nearest event root, so nested events don't leak into their parent
+    const property = (classes: string[]) => $root
+      .find(classes.map(name => `.${name}`).join(', '))
+      .filter((_, element) => $(element).parents(MICROFORMAT_ROOTS).first()[0] === root)
+      .first();
+
+    const name = collapseWhitespace(property(MICROFORMAT_PROPERTIES.name).text());
+    const startDate = microformatDate($, property(MICROFORMAT_PROPERTIES.start));
+    if (!name || !startDate || startDate.startsWith('T')) return;
+
+    // A dt-end holding only a time (value-class pattern) falls on the start date
+    let endDate = microformatDate($, property(MICROFORMAT_PROPERTIES.end));
+    if (endDate && /^T/.test(endDate)) {
+      endDate = startDate.slice(0, 10) + endDate;
+    }
+
+    const $location = property(MICROFORMAT_PROPERTIES.location);
+    const locationName = collapseWhitespace($location.find('.p-name, .fn, .org').first().text()) || collapseWhitespace($location.text());
+    const address = ['street-address', 'locality', 'region', 'postal-code']
+      .map(field => collapseWhitespace($location.find(`.p-${field}, .${field}`).first().text()))
+      .filter(Boolean)
+      .join(', ');
+
+    const $url = property(MICROFORMAT_PROPERTIES.url);
+    const $photo = property(MICROFORMAT_PROPERTIES.photo);
+
+    events.push({
+      id: null,
+      name,
+      description: collapseWhitespace(property(MICROFORMAT_PROPERTIES.description).text()),
+      startDate,
+      endDate,
+      locationName: locationName && locationName !== address ? locationName : null,
+      address: address || null,
+      price: null,
+      maxPrice: null,
+      imageUrl: resolveUrl($photo.attr('src') || $photo.attr('href') || null, pageUrl),
+      url: resolveUrl($url.attr('href') || null, pageUrl)
+    });
+  });
+
+  return events;
+}
+
+/**
+ * Read a dt-* property as ISO 8601. Follows the microformats value rules: the
+ * value-class pattern (separate date and time parts), then `datetime`, `title` and
+ * `value` attributes, then the element's text. Returns a bare "T18:00" when only a
+ * time is present, and null for anything without an unambiguous year.
+ */
+function microformatDate($: CheerioAPI, $element: Cheerio<any>): string | null {
+  if ($element.length === 0) return null;
+
+  const $parts = $element.find('.value, .value-title');
+  if ($parts.length > 0) {
+    let date = '';
+    let time = '';
+    let offset = '';
+    $parts.each((_, part) => {
+      const $part = $(part);
+      const raw = $part.hasClass('value-title')
+        ? $part.attr('title') || ''
+        : $part.attr('datetime') || $part.attr('title') || $part.attr('value') || $part.text();
+      const normalized = normalizeDateText(raw.trim());
+      if (!normalized) return;
+
+      const [datePart, timePart] = normalized.split('T');
+      if (datePart && !date) date = datePart;
+      if (timePart && !time) {
+        const match = timePart.match(/^([\d:]+)(Z|[+-]\d{2}:?\d{2})?$/);
+        time = match ? match[1] : timePart;
+        offset = match?.[2] ?? offset;
+      }
+    });
+    if (date) return time ? `${date}T${time}${offset}` : date;
+    return time ? `T${time}${offset}` : null;
+  }
+
+  const raw = $element.attr('datetime') || $element.attr('title') || $element.attr('value') || $element.attr('content') || $element.text();
+  return normalizeDateText(collapseWhitespace(raw) ?? '');
+}
+
+/**
+ * Normalise the date formats hCalendar templates and scraped pages use: extended and
+ * basic ISO 8601 ("2026-11-05 18:00", "20261105T1800Z"), bare times ("7:30pm") and
+ * fully written dates ("November 5, 2026 7:00 PM")
+ */
+export function normalizeDateText(raw: string): string | null {
+  if (!raw) return null;
+
+  const iso = raw.match(/^(\d{4})-?(\d{2})-?(\d{2})(?:[T\s](\d{2}):?(\d{2})(?::?(\d{2}))?(?:\.\d+)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i);
+  if (iso) {
+    const [, year, month, day, hour, minute, second, offset] = iso;
+    const date = `${year}-${month}-${day}`;
+    if (!hour) return date;
+    return `${date}T${hour}:${minute}:${second || '00'}${offset ? offset.toUpperCase() : ''}`;
+  }
+
+  const time = raw.match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?$/i) || raw.match(/^(\d{2}):(\d{2})(?::\d{2})?$/);
+  if (time) {
+    let hour = Number(time[1]);
+    const meridiem = time[3]?.toLowerCase();
+    if (meridiem === 'p' && hour < 12) hour += 12;
+    if (meridiem === 'a' && hour === 12) hour = 0;
+    return `T${String(hour).padStart(2, '0')}:${time[2] || '00'}:00`;
+  }
+
+  // Written-out dates are only trusted with a year; V8 would otherwise assume 2001
+  if (!/\b\d{4}\b/.test(raw)) return null;
+  const parsed = new Date(raw.replace(/(\d)(am|pm)\b/i, '$1 $2'));
+  if (isNaN(parsed.getTime())) return null;
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+  return /\d:\d{2}|\d\s*[ap]\.?m/i.test(raw) ? `${date}T${pad(parsed.getHours())}:${pad(parsed.getMinutes())}:00` : date;
+}
+
+export function collapseWhitespace(value: string | undefined): string | null {
+  const collapsed = (value ?? '').replace(/\s+/g, ' ').trim();
+  return collapsed || null;
+}
+
+/**
+ * Plain text from an API field holding rendered HTML ("Trivia &#8211; Round 2", "<p>…</p>")
+ */
+export function htmlToText(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  if (!/[<&]/.test(value)) return collapseWhitespace(value);
+  const $ = cheerio.load(value.replace(/<\/(p|div|li|h\d)>|<br\s*\/?>/gi, '$& '), null, false);
+  return collapseWhitespace($.root().text());
+}
+
+function hasType(node: JsonLdNode, type: string): boolean {
+  return asArray(node['@type']).some(value => typeof value === 'string' && value.replace(/^schema:/, '') === type);
+}
+
+// Event and its subtypes (MusicEvent, EducationEvent, SocialEvent, ...)
+function isEventType(node: JsonLdNode): boolean {
+  return asArray(node['@type']).some(value => typeof value === 'string' && /Event$/.test(value));
+}
+
+function formatAddress(address: unknown): string | null {
+  if (!address) return null;
+  if (typeof address === 'string') return address.trim() || null;
+  if (Array.isArray(address)) return formatAddress(address[0]);
+  if (typeof address !== 'object') return null;
+
+  const postal = address as JsonLdNode;
+  const regionLine = [text(postal.addressRegion), text(postal.postalCode)].filter(Boolean).join(' ');
+  const parts = [text(postal.streetAddress), text(postal.addressLocality), regionLine].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function offerPrices(node: JsonLdNode): { price: number | null; maxPrice: number | null } {
+  if (node.isAccessibleForFree === true || node.isAccessibleForFree === 'true') return { price: 0, maxPrice: 0 };
+
+  const prices: number[] = [];
+  for (const offer of asArray(node.offers)) {
+    if (!offer || typeof offer !== 'object') continue;
+    // AggregateOffer gives a range instead of a single price
+    for (const value of [offer.price, offer.lowPrice, offer.highPrice]) {
+      const price = parsePrice(value);
+      if (price !== null) prices.push(price);
+    }
+  }
+  return prices.length > 0 ? { price: Math.min(...prices), maxPrice: Math.max(...prices) } : { price: null, maxPrice: null };
+}
+
+export function parsePrice(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  if (/^\s*free\s*$/i.test(value)) return 0;
+
+  const match = value.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+function imageUrlOf(image: unknown): string | null {
+  const first = asArray(image)[0];
+  if (typeof first === 'string') return first;
+  if (first && typeof first === 'object') return text((first as JsonLdNode).url ?? (first as JsonLdNode).contentUrl);
+  return null;
+}
+
+export function resolveUrl(url: string | null, pageUrl: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url, pageUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+function text(value: unknown): string | null {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+function asArray(value: unknown): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
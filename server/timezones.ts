@@ -0,0 +1,188 @@
+/**
+ * IANA timezone lookups for calendar sources, plus helpers for moving between
+ * wall-clock times and real instants independent of the server's own timezone.
+ */
+
+// Predominant zone per state. Split states are refined by CITY_TIMEZONES below.
+const STATE_TIMEZONES: Record<string, string> = {
+  AL: 'America/Chicago',
+  AK: 'America/Anchorage',
+  AZ: 'America/Phoenix',
+  AR: 'America/Chicago',
+  CA: 'America/Los_Angeles',
+  CO: 'America/Denver',
+  CT: 'America/New_York',
+  DE: 'America/New_York',
+  DC: 'America/New_York',
+  FL: 'America/New_York',
+  GA: 'America/New_York',
+  HI: 'Pacific/Honolulu',
+  ID: 'America/Boise',
+  IL: 'America/Chicago',
+  IN: 'America/Indiana/Indianapolis',
+  IA: 'America/Chicago',
+  KS: 'America/Chicago',
+  KY: 'America/New_York',
+  LA: 'America/Chicago',
+  ME: 'America/New_York',
+  MD: 'America/New_York',
+  MA: 'America/New_York',
+  MI: 'America/Detroit',
+  MN: 'America/Chicago',
+  MS: 'America/Chicago',
+  MO: 'America/Chicago',
+  MT: 'America/Denver',
+  NE: 'America/Chicago',
+  NV: 'America/Los_Angeles',
+  NH: 'America/New_York',
+  NJ: 'America/New_York',
+  NM: 'America/Denver',
+  NY: 'America/New_York',
+  NC: 'America/New_York',
+  ND: 'America/Chicago',
+  OH: 'America/New_York',
+  OK: 'America/Chicago',
+  OR: 'America/Los_Angeles',
+  PA: 'America/New_York',
+  RI: 'America/New_York',
+  SC: 'America/New_York',
+  SD: 'America/Chicago',
+  TN: 'America/Chicago',
+  TX: 'America/Chicago',
+  UT: 'America/Denver',
+  VT: 'America/New_York',
+  VA: 'America/New_York',
+  WA: 'America/Los_Angeles',
+  WV: 'America/New_York',
+  WI: 'America/Chicago',
+  WY: 'America/Denver',
+  PR: 'America/Puerto_Rico'
+};
+
+const STATE_NAMES: Record<string, string> = {
+  'alabama': 'AL', 'alaska': 'AK', 'arizona': 'AZ', 'arkansas': 'AR', 'california': 'CA',
+  'colorado': 'CO', 'connecticut': 'CT', 'delaware': 'DE', 'district of columbia': 'DC',
+  'florida': 'FL', 'georgia': 'GA', 'hawaii': 'HI', 'idaho': 'ID', 'illinois': 'IL',
+  'indiana': 'IN', 'iowa': 'IA', 'kansas': 'KS', 'kentucky': 'KY', 'louisiana': 'LA',
+  'maine': 'ME', 'maryland': 'MD', 'massachusetts': 'MA', 'michigan': 'MI', 'minnesota': 'MN',
+  'mississippi': 'MS', 'missouri': 'MO', 'montana': 'MT', 'nebraska': 'NE', 'nevada': 'NV',
+  'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY',
+  'north carolina': 'NC', 'north dakota': 'ND', 'ohio': 'OH', 'oklahoma': 'OK', 'oregon': 'OR',
+  'pennsylvania': 'PA', 'rhode island': 'RI', 'south carolina': 'SC', 'south dakota': 'SD',
+  'tennessee': 'TN', 'texas': 'TX', 'utah': 'UT', 'vermont': 'VT', 'virginia': 'VA',
+  'washington': 'WA', 'west virginia': 'WV', 'wisconsin': 'WI', 'wyoming': 'WY', 'puerto rico': 'PR'
+};
+
+// Cities in split states that don't follow their state's predominant zone, keyed "city|ST"
+const CITY_TIMEZONES: Record<string, string> = {
+  'el paso|TX': 'America/Denver',
+  'pensacola|FL': 'America/Chicago',
+  'panama city|FL': 'America/Chicago',
+  'fort walton beach|FL': 'America/Chicago',
+  'destin|FL': 'America/Chicago',
+  'knoxville|TN': 'America/New_York',
+  'chattanooga|TN': 'America/New_York',
+  'johnson city|TN': 'America/New_York',
+  'kingsport|TN': 'America/New_York',
+  'bowling green|KY': 'America/Chicago',
+  'owensboro|KY': 'America/Chicago',
+  'paducah|KY': 'America/Chicago',
+  'gary|IN': 'America/Chicago',
+  'hammond|IN': 'America/Chicago',
+  'evansville|IN': 'America/Chicago',
+  'ironwood|MI': 'America/Menominee',
+  'menominee|MI': 'America/Menominee',
+  'ontario|OR': 'America/Boise',
+  'coeur d\'alene|ID': 'America/Los_Angeles',
+  'lewiston|ID': 'America/Los_Angeles',
+  'moscow|ID': 'America/Los_Angeles',
+  'garden city|KS': 'America/Denver',
+  'dickinson|ND': 'America/Denver',
+  'rapid city|SD': 'America/Denver',
+  'scottsbluff|NE': 'America/Denver',
+  'north platte|NE': 'America/Chicago'
+};
+
+/** Fallback when a source's location can't be resolved */
+export const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+
+/**
+ * Resolve the IANA timezone for a city/state, accepting state abbreviations or full names
+ */
+export function timezoneForLocation(city: string, state: string): string {
+  const trimmedState = state.trim();
+  const stateCode = trimmedState.length === 2 ? trimmedState.toUpperCase() : STATE_NAMES[trimmedState.toLowerCase()];
+  if (!stateCode) return DEFAULT_TIMEZONE;
+
+  const cityZone = CITY_TIMEZONES[`${city.trim().toLowerCase()}|${stateCode}`];
+  return cityZone || STATE_TIMEZONES[stateCode] || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Whether the runtime recognises the given IANA zone name
+ */
+export function isValidTimezone(timeZone: string | undefined | null): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format an instant as a 12-hour clock time ("7:00 PM") in the given zone
+ */
+export function formatTimeInZone(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone });
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) of an instant in the given zone
+ */
+export function formatDateInZone(date: Date, timeZone: string): string {
+  return date.toLocaleDateString('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone });
+}
+
+/**
+ * Convert a wall-clock time (encoded in the UTC fields of `wallTime`) in the
+ * given zone to the instant it represents.
+ */
+export function zonedTimeToDate(wallTime: Date, timeZone: string): Date {
+  const guess = wallTime.getTime() - timeZoneOffset(wallTime, timeZone);
+  // Re-check at the guessed instant so times near a DST change use the right offset
+  return new Date(wallTime.getTime() - timeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Reinterpret a date built from the server's local clock fields (new Date(y, m, d, h),
+ * setHours, ...) as that same wall-clock time in the given zone.
+ */
+export function hostLocalToZoned(date: Date, timeZone: string): Date {
+  const wallTime = new Date(Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  ));
+  return zonedTimeToDate(wallTime, timeZone);
+}
+
+/**
+ * Offset of a zone from UTC in milliseconds at the given instant
+ */
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUTC = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+}
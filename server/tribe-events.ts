@@ -0,0 +1,136 @@
+import { looksLikeJson, type FeedResponse } from './feed-parsers';
+import { htmlToText, parsePrice } from './structured-data';
+
+/**
+ * The REST API of The Events Calendar, the WordPress plugin many chambers of commerce
+ * and nonprofits use. Responses are pages of events with venue, cost, category and
+ * featured-image details, linked by `next_rest_url`.
+ */
+
+export const TRIBE_EVENTS_PATH = '/wp-json/tribe/events/v1/events';
+
+// Events requested per page; the plugin defaults to 10 and allows up to 50
+const TRIBE_PAGE_SIZE = 50;
+
+export interface TribeEventRecord {
+  id: string;
+  title: string;
+  description: string;
+  url: string | null;
+  allDay: boolean;
+  start: string; // UTC instant (…Z), or YYYY-MM-DD for all-day events
+  end: string | null; // as start; all-day ends are the last day, inclusive
+  timezone: string | null;
+  venue: string | null;
+  cost: string | null;
+  prices: number[]; // the amounts in cost, in dollars
+  free: boolean;
+  categories: string[];
+  imageUrl: string | null;
+}
+
+export interface TribeEventsPage {
+  events: TribeEventRecord[];
+  nextUrl: string | null;
+  total: number | null;
+}
+
+/**
+ * The events endpoint for a site, from its home page or WordPress REST root
+ * (`<link rel="https://api.w.org/">`), or the given endpoint with a full page size
+ */
+export function tribeEventsUrl(url: string): string {
+  const endpoint = new URL(url);
+  if (!endpoint.pathname.includes('/tribe/events/v1/events')) {
+    const restRoot = /\/wp-json\/?$/.test(endpoint.pathname) ? endpoint.pathname.replace(/\/?$/, '/') : `${endpoint.pathname.replace(/\/$/, '')}/wp-json/`;
+    endpoint.pathname = `${restRoot}tribe/events/v1/events`;
+    endpoint.search = '';
+  }
+  if (!endpoint.searchParams.has('per_page')) endpoint.searchParams.set('per_page', String(TRIBE_PAGE_SIZE));
+  return endpoint.toString();
+}
+
+export function looksLikeTribeEvents(response: FeedResponse): boolean {
+  if (!looksLikeJson(response)) return false;
+  const start = response.body.slice(0, 4096);
+  return /"events"\s*:/.test(start) && (/tribe\\?\/events\\?\/v1/.test(response.body) || /"utc_start_date"\s*:/.test(response.body));
+}
+
+/**
+ * One page of an events endpoint response
+ */
+export function parseTribeEventsPage(body: string): TribeEventsPage {
+  const data = JSON.parse(body);
+  if (!data || !Array.isArray(data.events)) throw new Error('The Events Calendar response has no events list');
+
+  const events: TribeEventRecord[] = [];
+  for (const event of data.events) {
+    const record = toRecord(event);
+    if (record) events.push(record);
+  }
+
+  return {
+    events,
+    nextUrl: typeof data.next_rest_url === 'string' && data.next_rest_url ? data.next_rest_url : null,
+    total: typeof data.total === 'number' ? data.total : null
+  };
+}
+
+function toRecord(event: any): TribeEventRecord | null {
+  const title = htmlToText(event?.title);
+  if (!title || event.id == null) return null;
+
+  const allDay = event.all_day === true;
+  // utc_* dates are "YYYY-MM-DD HH:mm:ss" in UTC; the local ones carry no offset
+  const start = allDay ? dateOnly(event.start_date) : utcInstant(event.utc_start_date);
+  if (!start) return null;
+  const end = allDay ? dateOnly(event.end_date) : utcInstant(event.utc_end_date);
+
+  const cost = htmlToText(event.cost);
+  const costValues: number[] = Array.isArray(event.cost_details?.values)
+    ? event.cost_details.values.map((value: unknown) => parsePrice(value)).filter((value: number | null): value is number => value !== null)
+    : [];
+
+  return {
+    id: String(event.id),
+    title,
+    description: htmlToText(event.description) || htmlToText(event.excerpt) || '',
+    url: typeof event.url === 'string' && event.url ? event.url : null,
+    allDay,
+    start,
+    end,
+    timezone: typeof event.timezone === 'string' && event.timezone ? event.timezone : null,
+    venue: formatVenue(event.venue),
+    cost,
+    prices: costValues,
+    free: /\bfree\b/i.test(cost ?? '') || (costValues.length > 0 && costValues.every(value => value === 0)),
+    categories: Array.isArray(event.categories)
+      ? event.categories.map((category: any) => htmlToText(category?.name)).filter((name: string | null): name is string => !!name)
+      : [],
+    imageUrl: typeof event.image?.url === 'string' ? event.image.url : null
+  };
+}
+
+// Venues come back as an object, or as an empty array when the event has none
+function formatVenue(venue: any): string | null {
+  if (!venue || Array.isArray(venue) || typeof venue !== 'object') return null;
+
+  const region = [venue.city, venue.stateprovince || venue.state || venue.province]
+    .map(part => htmlToText(part))
+    .filter(Boolean)
+    .join(', ');
+  const parts = [htmlToText(venue.venue), htmlToText(venue.address), [region, htmlToText(venue.zip)].filter(Boolean).join(' ')]
+    .filter((part): part is string => !!part);
+
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function utcInstant(value: unknown): string | null {
+  const match = typeof value === 'string' && value.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})$/);
+  return match ? `${match[1]}T${match[2]}Z` : null;
+}
+
+function dateOnly(value: unknown): string | null {
+  const match = typeof value === 'string' && value.match(/^\d{4}-\d{2}-\d{2}/);
+  return match ? match[0] : null;
+}
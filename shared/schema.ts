@@ -1,23 +1,101 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const eventStatuses = ["scheduled", "cancelled", "stale"] as const;
+
+export type EventStatus = typeof eventStatuses[number];
+
+// Public meetings read from Legistar or Granicus: the body that meets and its documents
+export const meetingDetailsSchema = z.object({
+  body: z.string(), // "City Council", "Planning Commission"
+  agendaUrl: z.string().nullable(),
+  minutesUrl: z.string().nullable(),
+  videoUrl: z.string().nullable(),
+});
+
+export type MeetingDetails = z.infer<typeof meetingDetailsSchema>;
+
+// Who an event is for, normalized from library and recreation platforms' own labels
+export const audienceGroups = ["Babies & Toddlers", "Kids", "Teens", "Adults", "Seniors", "Families", "All Ages"] as const;
+
+export type AudienceGroup = typeof audienceGroups[number];
+
+export const registrationSchema = z.object({
+  required: z.boolean(),
+  url: z.string().nullable(),
+  status: z.enum(["open", "waitlist", "full", "closed"]).nullable(), // null when the platform doesn't say
+});
+
+export type Registration = z.infer<typeof registrationSchema>;
+
+// A document published with an event: an iCal ATTACH, or an agenda or flyer linked from its description
+export const eventAttachmentSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  mimeType: z.string().nullable(), // null when the source doesn't say
+});
+
+export type EventAttachment = z.infer<typeof eventAttachmentSchema>;
+
+// Another source's listing of the same event, folded into a canonical event by the dedupe step
+export const eventListingSchema = z.object({
+  eventId: z.string(),
+  source: z.string(),
+  sourceName: z.string(),
+});
+
+export type EventListing = z.infer<typeof eventListingSchema>;
+
 export const events = pgTable("events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
   description: text("description").notNull(),
-  category: varchar("category", { length: 50 }).notNull(),
+  category: varchar("category", { length: 50 }).notNull(), // primary category
+  tags: jsonb("tags").$type<string[]>(), // secondary categories, best first
   location: text("location").notNull(),
   organizer: text("organizer").notNull(),
-  startDate: timestamp("start_date").notNull(),
-  endDate: timestamp("end_date").notNull(),
+  startDate: timestamp("start_date", { withTimezone: true }).notNull(),
+  endDate: timestamp("end_date", { withTimezone: true }).notNull(),
   startTime: varchar("start_time", { length: 10 }).notNull(),
   endTime: varchar("end_time", { length: 10 }).notNull(),
+  allDay: boolean("all_day").notNull().default(false), // endDate is the exclusive midnight after the last day
   attendees: integer("attendees").default(0),
   imageUrl: text("image_url"),
   isFree: text("is_free").default("true"),
+  // Price range in dollars read from the feed or description; priceMin is 0 when some tickets are free
+  priceMin: real("price_min"),
+  priceMax: real("price_max"),
+  priceLabel: text("price_label"), // cost as the source published it, e.g. "$5 members / $10 general"
   source: text("source").notNull(), // city website, school, community center, etc.
+  externalId: text("external_id"), // iCal UID, RSS guid, JSON id or content hash - stable across re-syncs
+  status: varchar("status", { length: 20 }).$type<EventStatus>().notNull().default("scheduled"), // cancelled by the feed, or stale when it vanished from the feed
+  timezone: text("timezone"), // IANA zone the event takes place in, used to display its local times
+  parseConfidence: real("parse_confidence"), // 0-1 for events read from unstructured documents such as PDF calendars, null for structured feeds
+  meetingDetails: jsonb("meeting_details").$type<MeetingDetails>(),
+  audience: jsonb("audience").$type<AudienceGroup[]>(),
+  ageMin: integer("age_min"), // inclusive, in years
+  ageMax: integer("age_max"),
+  registration: jsonb("registration").$type<Registration>(),
+  url: text("url"), // the event's page on the source site
+  attachments: jsonb("attachments").$type<EventAttachment[]>(),
+  mergedInto: varchar("merged_into"), // canonical event this listing was merged into; merged listings are hidden from event lists
+  alsoListedBy: jsonb("also_listed_by").$type<EventListing[]>(), // on a canonical event, the listings merged into it
+  distinctFrom: jsonb("distinct_from").$type<string[]>(), // canonical events this listing was un-merged from, never merged again
+});
+
+export const revisionFields = ["startDate", "location", "title"] as const;
+
+export type RevisionField = typeof revisionFields[number];
+
+export const eventRevisions = pgTable("event_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  field: varchar("field", { length: 20 }).$type<RevisionField>().notNull(),
+  previousValue: text("previous_value").notNull(), // ISO timestamp for startDate
+  newValue: text("new_value").notNull(),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
 });
 
 export const cities = pgTable("cities", {
@@ -28,16 +106,97 @@ export const cities = pgTable("cities", {
   websiteUrl: text("website_url"),
 });
 
-export const insertEventSchema = createInsertSchema(events).omit({
+export const calendarSourceTypes = ["city", "school", "chamber", "library", "parks"] as const;
+export const feedTypes = ["ical", "rss", "webcal", "json", "html", "pdf", "legistar", "granicus", "tribe", "libcal", "communico", "librarymarket", "activenet", "recdesk", "civicrec"] as const;
+
+export type CalendarSourceType = typeof calendarSourceTypes[number];
+export type FeedType = typeof feedTypes[number];
+
+// CSS selectors for scraping an HTML calendar the generic extractors can't read. Field
+// selectors are relative to each container and may end in "@attr" to read an attribute
+// instead of the text, e.g. "time@datetime" or "a.more@href".
+export const scrapingRulesSchema = z.object({
+  container: z.string().min(1),
+  title: z.string().min(1),
+  date: z.string().min(1),
+  time: z.string().optional(),
+  location: z.string().optional(),
+  link: z.string().optional(),
+  description: z.string().optional(),
+  dateFormat: z.string().optional(), // date-fns pattern such as "MMMM d, yyyy"; free-form parsing when omitted
+  pagination: z.object({
+    next: z.string().min(1), // selector for the next-page link
+    maxPages: z.number().int().min(1).max(10).default(3),
+  }).optional(),
+});
+
+export type ScrapingRules = z.infer<typeof scrapingRulesSchema>;
+
+export const calendarSources = pgTable("calendar_sources", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  city: text("city").notNull(),
+  state: text("state").notNull(),
+  type: varchar("type", { length: 20 }).$type<CalendarSourceType>().notNull(),
+  feedUrl: text("feed_url"),
+  websiteUrl: text("website_url"),
+  isActive: boolean("is_active").notNull().default(true),
+  lastSync: timestamp("last_sync"),
+  feedType: varchar("feed_type", { length: 20 }).$type<FeedType>().notNull(),
+  timezone: text("timezone"), // IANA zone for the source's floating times, defaulted from city/state
+  // Validators from the last full fetch, replayed as If-None-Match / If-Modified-Since
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  contentHash: varchar("content_hash", { length: 40 }), // sha1 of the last parsed body, for servers without validators
+  lastParsed: timestamp("last_parsed"),
+  scrapingRules: jsonb("scraping_rules").$type<ScrapingRules>(),
+  color: varchar("color", { length: 7 }), // "#rrggbb" the publisher draws the calendar in, e.g. from a Google Calendar embed
+});
+
+export const insertEventSchema = createInsertSchema(events, {
+  status: z.enum(eventStatuses).optional(),
+  tags: z.array(z.string()).nullable().optional(),
+  meetingDetails: meetingDetailsSchema.nullable().optional(),
+  audience: z.array(z.enum(audienceGroups)).nullable().optional(),
+  registration: registrationSchema.nullable().optional(),
+  attachments: z.array(eventAttachmentSchema).nullable().optional(),
+  alsoListedBy: z.array(eventListingSchema).nullable().optional(),
+  distinctFrom: z.array(z.string()).nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export const insertEventRevisionSchema = createInsertSchema(eventRevisions, {
+  field: z.enum(revisionFields),
+}).omit({
   id: true,
 });
 
 export const insertCitySchema = createInsertSchema(cities);
 
+export const insertCalendarSourceSchema = createInsertSchema(calendarSources, {
+  type: z.enum(calendarSourceTypes),
+  feedType: z.enum(feedTypes),
+  scrapingRules: scrapingRulesSchema.nullable().optional(),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i).nullable().optional(),
+});
+
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 export type Event = typeof events.$inferSelect;
+export type InsertEventRevision = z.infer<typeof insertEventRevisionSchema>;
+export type EventRevision = typeof eventRevisions.$inferSelect;
 export type InsertCity = z.infer<typeof insertCitySchema>;
 export type City = typeof cities.$inferSelect;
+export type InsertCalendarSource = z.infer<typeof insertCalendarSourceSchema>;
+export type CalendarSourceRecord = typeof calendarSources.$inferSelect;
+
+// How a source's events were categorized, for tuning the category rules
+export interface SourceCategoryDistribution {
+  source: string;
+  total: number;
+  categories: Record<string, number>; // primary categories
+  tags: Record<string, number>; // secondary tags
+}
 
 // Additional schemas for filtering
 export const eventFilterSchema = z.object({
@@ -47,6 +206,9 @@ export const eventFilterSchema = z.object({
   locations: z.array(z.string()).optional(), // Support multiple locations
   startDate: z.string().optional(),
   endDate: z.string().optional(),
+  maxPrice: z.number().min(0).optional(), // free events and those with a ticket at or under this price
+  freeOnly: z.boolean().optional(),
+  audience: z.array(z.enum(audienceGroups)).optional(), // events for any of these groups; "All Ages" events always match
 });
 
 export type EventFilter = z.infer<typeof eventFilterSchema>;